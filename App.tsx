@@ -1,40 +1,58 @@
 
-import React, { useMemo, useRef, useState, useEffect } from 'react';
+import React, { useCallback, useMemo, useRef, useState, useEffect } from 'react';
 import Editor, { EditorHandle } from './components/Editor';
-import { Collaborator } from './types';
-import { COLORS, ROOM_NAME } from './constants';
-import * as mammoth from 'mammoth';
+import ImportDialog from './components/ImportDialog';
+import HistoryPanel from './components/HistoryPanel';
+import VersionPreview from './components/VersionPreview';
+import CommentsPanel from './components/CommentsPanel';
+import ProfileDialog from './components/ProfileDialog';
+import { CommentDraft, Collaborator, ConnectionStatus, CRDTChar, HistorySnapshot, HistoryVersion, ImportMode, RichTextRun, Role, UserProfile } from './types';
+import { DEFAULT_ROOM_NAME } from './constants';
+import { loadProfile, newSiteId, saveProfile } from './services/userProfile';
+import { decodeAccessToken, resolveAccessToken, shareLink } from './services/accessToken';
+import { extractDocxRuns } from './lib/docxImport';
+import { AuthorStats, authorName } from './lib/authorship';
+import { AnchoredComment } from './lib/comments';
+import { markdownToRuns } from './lib/markdown';
 
-const generateUserId = () => `UID-${Math.floor(1000 + Math.random() * 9000)}`;
-const randomColor = () => COLORS[Math.floor(Math.random() * COLORS.length)];
+const CONNECTION_LABELS: Record<ConnectionStatus['state'], { label: string; className: string }> = {
+  connected: { label: 'Connected', className: 'text-green-500' },
+  reconnecting: { label: 'Reconnecting...', className: 'text-amber-500' },
+  offline: { label: 'Offline', className: 'text-red-500' },
+  denied: { label: 'Link expired or access denied', className: 'text-red-500' },
+};
+const ROLE_LABELS: Record<Role, string> = {
+  owner: 'Owner',
+  editor: 'Can edit',
+  commenter: 'Can comment',
+  viewer: 'Can view',
+};
+// What an owner can hand out with a share link
+const SHARE_ROLES: { role: Role; label: string }[] = [
+  { role: 'viewer', label: 'Can view' },
+  { role: 'commenter', label: 'Can comment' },
+  { role: 'editor', label: 'Can edit' },
+];
+const sanitizeRoomName = (room: string) => room.trim().replace(/[^a-zA-Z0-9_-]/g, '').slice(0, 64);
+
+// Room comes from ?room=<name> first, then the last path segment (/doc/<name>)
+const resolveRoomName = () => {
+  const url = new URL(window.location.href);
+  const fromQuery = sanitizeRoomName(url.searchParams.get('room') || '');
+  if (fromQuery) return fromQuery;
+  const lastSegment = decodeURIComponent(url.pathname.split('/').filter(Boolean).pop() || '');
+  // Skip file-like segments such as /index.html
+  if (lastSegment && !lastSegment.includes('.')) {
+    const fromPath = sanitizeRoomName(lastSegment);
+    if (fromPath) return fromPath;
+  }
+  return DEFAULT_ROOM_NAME;
+};
 const normalizeImportedText = (input: string) =>
   input
     .replace(/\r\n?/g, '\n') // normalize Windows/Mac line endings
     .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, ''); // strip control chars that break rendering
 
-const extractDocxText = async (arrayBuffer: ArrayBuffer) => {
-  // Try high-fidelity raw text first
-  try {
-    const rawResult = await mammoth.extractRawText({ arrayBuffer });
-    if (rawResult.value && rawResult.value.trim().length > 0) {
-      return rawResult.value;
-    }
-  } catch (err) {
-    console.warn('Failed to extract raw text via Mammoth:', err);
-  }
-
-  // Fallback to HTML conversion (captures tables, headers, etc.)
-  try {
-    const htmlResult = await mammoth.convertToHtml({ arrayBuffer });
-    const temp = document.createElement('div');
-    temp.innerHTML = htmlResult.value || '';
-    return temp.textContent || '';
-  } catch (err) {
-    console.error('Failed to convert DOCX to HTML for fallback', err);
-    throw err;
-  }
-};
-
 const App: React.FC = () => {
   const editorRef = useRef<EditorHandle>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -43,14 +61,52 @@ const App: React.FC = () => {
   const [copied, setCopied] = useState(false);
   const [sidebarVisible, setSidebarVisible] = useState(true);
   const [activeUsers, setActiveUsers] = useState<Collaborator[]>([]);
+  const roomName = useMemo(resolveRoomName, []);
+  const accessToken = useMemo(() => resolveAccessToken(roomName), [roomName]);
+  // Null when there is no usable token for this room; the relay would refuse us
+  const access = useMemo(() => {
+    const grant = decodeAccessToken(accessToken);
+    return grant && grant.room === roomName ? grant : null;
+  }, [accessToken, roomName]);
+  const readOnly = access?.role === 'viewer' || access?.role === 'commenter';
+  const canComment = access?.role !== 'viewer';
+  const [shareRole, setShareRole] = useState<Role>('editor');
+  const [creatingLink, setCreatingLink] = useState(false);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>({ state: 'reconnecting', pendingOps: 0 });
+  // Parsed file waiting for the user to pick how it should be merged in
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; runs: RichTextRun[] } | null>(null);
+  const [versions, setVersions] = useState<HistoryVersion[]>([]);
+  // Version being fetched from the relay, then the one shown in the preview
+  const [loadingVersionId, setLoadingVersionId] = useState<string | null>(null);
+  const [previewVersion, setPreviewVersion] = useState<HistorySnapshot | null>(null);
+  const [showAuthorship, setShowAuthorship] = useState(false);
+  const [authorship, setAuthorship] = useState<AuthorStats[]>([]);
+  const [comments, setComments] = useState<AnchoredComment[]>([]);
+  const [commentDraft, setCommentDraft] = useState<CommentDraft | null>(null);
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  const [profile, setProfile] = useState<UserProfile>(loadProfile);
+  const [editingProfile, setEditingProfile] = useState(false);
 
-
-  // Each tab/session gets its own unique identity
+  // Each tab/session edits under its own siteId; the profile says who is behind it
+  const siteId = useMemo(newSiteId, []);
   const currentUser = useMemo<Collaborator>(() => ({
-    id: generateUserId(),
-    name: '', // We use ID primarily
-    color: randomColor(),
-  }), []);
+    id: siteId,
+    userId: profile.userId,
+    name: profile.name,
+    color: profile.color,
+  }), [siteId, profile]);
+
+  // One entry per person, however many tabs they have open
+  const activePeople = useMemo(() => {
+    const people = new Map<string, { user: Collaborator; tabs: number }>();
+    activeUsers.forEach(u => {
+      const key = u.userId || u.id;
+      const person = people.get(key);
+      if (person) person.tabs++;
+      else people.set(key, { user: u, tabs: 1 });
+    });
+    return Array.from(people.values());
+  }, [activeUsers]);
 
   useEffect(() => {
     if (darkMode) {
@@ -62,20 +118,31 @@ const App: React.FC = () => {
     }
   }, [darkMode]);
 
+  const handleSaveProfile = (next: UserProfile) => {
+    saveProfile(next);
+    setProfile(next);
+    setEditingProfile(false);
+  };
+
   const handleUploadClick = () => {
     fileInputRef.current?.click();
   };
 
-  const getShareableLink = () => {
-    const url = new URL(window.location.href);
-    if (url.hostname === 'localhost' || url.hostname === '127.0.0.1') {
-      url.hostname = '172.20.10.8';
+  // Owners hand out a fresh token for the chosen role; anyone else copies the
+  // plain room link, which only opens for people who already have access
+  const handleCopyLink = async () => {
+    let link = shareLink(roomName);
+    if (access?.role === 'owner') {
+      setCreatingLink(true);
+      const token = await editorRef.current?.createShareToken(shareRole);
+      setCreatingLink(false);
+      if (!token) {
+        alert('The share link could not be created. Check your connection and try again.');
+        return;
+      }
+      link = shareLink(roomName, token);
     }
-    return url.toString();
-  };
-
-  const handleCopyLink = () => {
-    navigator.clipboard.writeText(getShareableLink());
+    navigator.clipboard.writeText(link);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
@@ -86,13 +153,15 @@ const App: React.FC = () => {
 
     setIsUploading(true);
     try {
-      let text = '';
+      let runs: RichTextRun[] = [];
       if (file.name.toLowerCase().endsWith('.txt')) {
-        text = await file.text();
+        runs = [{ text: await file.text() }];
+      } else if (file.name.toLowerCase().endsWith('.md') || file.name.toLowerCase().endsWith('.markdown')) {
+        runs = markdownToRuns(await file.text());
       } else if (file.name.toLowerCase().endsWith('.docx')) {
         const arrayBuffer = await file.arrayBuffer();
         try {
-          text = await extractDocxText(arrayBuffer);
+          runs = await extractDocxRuns(arrayBuffer);
         } catch (innerError: any) {
           if (innerError.message?.includes('central directory')) {
             throw new Error('This file appears to be an older .doc format or is corrupted. Mammoth only supports .docx files.');
@@ -104,16 +173,15 @@ const App: React.FC = () => {
         setIsUploading(false);
         return;
       } else {
-        alert('Unsupported file format. Please upload .txt or .docx');
+        alert('Unsupported file format. Please upload .txt, .md or .docx');
         setIsUploading(false);
         return;
       }
 
-      const sanitizedText = normalizeImportedText(text);
-
-      if (editorRef.current) {
-        editorRef.current.importText(sanitizedText);
-      }
+      const sanitizedRuns = runs
+        .map(run => ({ ...run, text: normalizeImportedText(run.text) }))
+        .filter(run => run.text.length > 0);
+      setPendingImport({ fileName: file.name, runs: sanitizedRuns });
     } catch (error: any) {
       console.error('Failed to parse file:', error);
       alert(`Error reading file: ${error.message || 'Unknown error'}`);
@@ -123,6 +191,61 @@ const App: React.FC = () => {
     }
   };
 
+  const handleImportChoice = (mode: ImportMode) => {
+    if (!pendingImport || !editorRef.current) return;
+    // Replacing deletes everyone's text, so ask before doing it to a non-empty doc
+    if (
+      mode === 'replace' &&
+      editorRef.current.hasContent() &&
+      !window.confirm('Replace the shared document for everyone in this room? You can undo this afterwards.')
+    ) {
+      return;
+    }
+    editorRef.current.importRuns(pendingImport.runs, mode);
+    setPendingImport(null);
+  };
+
+  // Stable wrappers so the version preview does not refetch on every render
+  const loadVersion = useCallback(
+    async (id: string) => (editorRef.current ? editorRef.current.loadVersion(id) : null),
+    []
+  );
+  const currentDocument = useCallback(() => editorRef.current?.getChars() ?? [], []);
+  const deletedBy = useCallback((char: CRDTChar) => editorRef.current?.deletedBy(char) ?? null, []);
+  const getAuthors = useCallback(() => editorRef.current?.getAuthors() ?? {}, []);
+
+  const handleSubmitComment = (text: string) => {
+    if (!commentDraft) return;
+    editorRef.current?.addComment(commentDraft, text);
+    setCommentDraft(null);
+  };
+
+  const handleSelectComment = (threadId: string) => {
+    setActiveCommentId(threadId);
+    editorRef.current?.focusComment(threadId);
+  };
+
+  const handleOpenVersion = async (version: HistoryVersion) => {
+    if (!editorRef.current) return;
+    setLoadingVersionId(version.id);
+    try {
+      const snapshot = await editorRef.current.loadVersion(version.id);
+      if (snapshot) setPreviewVersion(snapshot);
+      else alert('This version could not be loaded. Check your connection and try again.');
+    } finally {
+      setLoadingVersionId(null);
+    }
+  };
+
+  const handleRestoreVersion = () => {
+    if (!previewVersion || !editorRef.current) return;
+    if (!window.confirm('Restore this version for everyone in this room? The current text is saved to history first, and you can undo this afterwards.')) {
+      return;
+    }
+    editorRef.current.restoreVersion(previewVersion);
+    setPreviewVersion(null);
+  };
+
   return (
     <div className={`flex flex-col h-full transition-colors duration-300 ${darkMode ? 'dark bg-slate-950 text-slate-100' : 'bg-slate-50 text-slate-900'}`}>
       {/* Hidden File Input */}
@@ -130,10 +253,40 @@ const App: React.FC = () => {
         type="file" 
         ref={fileInputRef} 
         className="hidden" 
-        accept=".txt,.docx" 
+        accept=".txt,.md,.markdown,.docx" 
         onChange={handleFileChange}
       />
 
+      {pendingImport && (
+        <ImportDialog
+          fileName={pendingImport.fileName}
+          charCount={pendingImport.runs.reduce((sum, run) => sum + run.text.length, 0)}
+          onChoose={handleImportChoice}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {(!profile.name || editingProfile) && (
+        <ProfileDialog
+          profile={profile}
+          onSave={handleSaveProfile}
+          onCancel={profile.name ? () => setEditingProfile(false) : undefined}
+        />
+      )}
+
+      {previewVersion && (
+        <VersionPreview
+          version={previewVersion}
+          versions={versions}
+          loadVersion={loadVersion}
+          currentDocument={currentDocument}
+          deletedBy={deletedBy}
+          getAuthors={getAuthors}
+          onRestore={readOnly ? undefined : handleRestoreVersion}
+          onClose={() => setPreviewVersion(null)}
+        />
+      )}
+
       {/* Header */}
       <header className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-md border-b border-slate-200 dark:border-slate-800 px-8 py-4 flex items-center justify-between shrink-0 z-30 shadow-sm transition-colors duration-300">
         <div className="flex items-center gap-4">
@@ -161,34 +314,43 @@ const App: React.FC = () => {
         </div>
 
         <div className="flex items-center gap-4">
-          <button 
-            onClick={handleUploadClick}
-            disabled={isUploading}
-            className={`flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold transition-all transform active:scale-95 ${
-              isUploading 
-                ? 'bg-slate-100 dark:bg-slate-800 text-slate-400 cursor-not-allowed' 
-                : 'bg-indigo-50 dark:bg-indigo-950/30 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-100 dark:hover:bg-indigo-900/40 shadow-sm border border-indigo-100 dark:border-indigo-900/30'
-            }`}
+          {!readOnly && (
+            <button 
+              onClick={handleUploadClick}
+              disabled={isUploading}
+              className={`flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold transition-all transform active:scale-95 ${
+                isUploading 
+                  ? 'bg-slate-100 dark:bg-slate-800 text-slate-400 cursor-not-allowed' 
+                  : 'bg-indigo-50 dark:bg-indigo-950/30 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-100 dark:hover:bg-indigo-900/40 shadow-sm border border-indigo-100 dark:border-indigo-900/30'
+              }`}
+            >
+              {isUploading ? (
+                <svg className="animate-spin h-4 w-4 text-indigo-600" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+              ) : (
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                </svg>
+              )}
+              {isUploading ? 'Uploading...' : 'Upload Doc'}
+            </button>
+          )}
+
+          <button
+            onClick={() => setEditingProfile(true)}
+            className="flex items-center gap-3 border-l border-slate-200 dark:border-slate-800 pl-6 text-right"
+            title="Edit your name and colour"
           >
-            {isUploading ? (
-              <svg className="animate-spin h-4 w-4 text-indigo-600" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-              </svg>
-            ) : (
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
-              </svg>
-            )}
-            {isUploading ? 'Uploading...' : 'Upload Doc'}
+             <div className="flex flex-col items-end">
+               <span className="text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase">Signed in as</span>
+               <span className="text-xs font-bold text-slate-700 dark:text-slate-200 max-w-[10rem] truncate">{currentUser.name || currentUser.id}</span>
+             </div>
+             <div className="w-8 h-8 rounded-full flex items-center justify-center text-xs text-white font-bold shadow-sm" style={{ backgroundColor: currentUser.color }}>
+               {(currentUser.name[0] || '?').toUpperCase()}
+             </div>
           </button>
-
-          <div className="flex flex-col items-end border-l border-slate-200 dark:border-slate-800 pl-6">
-             <span className="text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase">Your Session</span>
-             <span className="text-xs font-mono font-bold px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-800" style={{ color: currentUser.color }}>
-               {currentUser.id}
-             </span>
-          </div>
         </div>
       </header>
 
@@ -234,15 +396,42 @@ const App: React.FC = () => {
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <h3 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">Active Users</h3>
-                <span className="text-[10px] font-bold px-1.5 py-0.5 bg-indigo-100 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-400 rounded-md">{activeUsers.length}</span>
+                <span className="text-[10px] font-bold px-1.5 py-0.5 bg-indigo-100 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-400 rounded-md">{activePeople.length}</span>
               </div>
               <div className="space-y-2 max-h-40 overflow-y-auto custom-scrollbar pr-1">
-                 {activeUsers.length === 0 && <p className="text-xs text-slate-400 dark:text-slate-500 italic">Connecting...</p>}
-                 {activeUsers.map(u => (
-                    <div key={u.id} className="flex items-center gap-3 p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800">
+                 {activePeople.length === 0 && <p className="text-xs text-slate-400 dark:text-slate-500 italic">Connecting...</p>}
+                 {activePeople.map(({ user: u, tabs }) => (
+                    <div key={u.userId || u.id} className="flex items-center gap-3 p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800">
                         <div className="w-2 h-2 rounded-full shadow-sm" style={{ backgroundColor: u.color }}></div>
                         <span className="text-xs font-bold text-slate-700 dark:text-slate-300 truncate flex-1">{u.name || u.id}</span>
-                        {u.id === currentUser.id && <span className="text-[9px] font-bold px-1.5 py-0.5 rounded bg-slate-200 dark:bg-slate-700 text-slate-500">YOU</span>}
+                        {tabs > 1 && <span className="text-[9px] font-bold text-slate-400 dark:text-slate-500">{tabs} tabs</span>}
+                        {(u.userId || u.id) === currentUser.userId && <span className="text-[9px] font-bold px-1.5 py-0.5 rounded bg-slate-200 dark:bg-slate-700 text-slate-500">YOU</span>}
+                    </div>
+                 ))}
+              </div>
+            </div>
+
+            {/* Authorship Section */}
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">Authorship</h3>
+                <button
+                  onClick={() => setShowAuthorship(!showAuthorship)}
+                  role="switch"
+                  aria-checked={showAuthorship}
+                  className={`relative w-9 h-5 rounded-full transition-colors ${showAuthorship ? 'bg-indigo-600' : 'bg-slate-200 dark:bg-slate-700'}`}
+                  title="Highlight text by author"
+                >
+                  <span className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white shadow-sm transition-transform ${showAuthorship ? 'translate-x-4' : ''}`} />
+                </button>
+              </div>
+              <div className="space-y-2 max-h-40 overflow-y-auto custom-scrollbar pr-1">
+                 {authorship.length === 0 && <p className="text-xs text-slate-400 dark:text-slate-500 italic">Nothing written yet</p>}
+                 {authorship.map(({ author, charCount }) => (
+                    <div key={author.id} className="flex items-center gap-3 p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800">
+                        <div className="w-2 h-2 rounded-full shadow-sm" style={{ backgroundColor: author.color }}></div>
+                        <span className="text-xs font-bold text-slate-700 dark:text-slate-300 truncate flex-1">{authorName(author)}</span>
+                        <span className="text-[10px] font-bold text-slate-400 dark:text-slate-500">{charCount.toLocaleString()} chars</span>
                     </div>
                  ))}
               </div>
@@ -253,14 +442,39 @@ const App: React.FC = () => {
               <h3 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">Collaboration</h3>
               <div className="space-y-3">
                 <div className="bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-800 rounded-xl p-3">
+                  <p className="text-[10px] font-bold text-slate-400 dark:text-slate-500 mb-1">Room</p>
+                  <p className="text-xs font-mono font-bold text-slate-700 dark:text-slate-300 truncate mb-3">{roomName}</p>
+                  <p className="text-[10px] font-bold text-slate-400 dark:text-slate-500 mb-1">Your Access</p>
+                  <p className="text-xs font-bold text-slate-700 dark:text-slate-300 mb-3">
+                    {access ? ROLE_LABELS[access.role] : 'None'}
+                    {access?.exp && <span className="font-normal text-slate-400 dark:text-slate-500"> · until {new Date(access.exp).toLocaleDateString()}</span>}
+                  </p>
                   <p className="text-[10px] font-bold text-slate-400 dark:text-slate-500 mb-1">Document Link</p>
                   <p className="text-xs font-mono text-slate-600 dark:text-slate-400 truncate bg-white dark:bg-slate-800 p-2 rounded-lg border border-slate-100 dark:border-slate-700">
-                    {getShareableLink()}
+                    {shareLink(roomName)}
                   </p>
                 </div>
+                {access?.role === 'owner' ? (
+                  <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl">
+                    {SHARE_ROLES.map(option => (
+                      <button
+                        key={option.role}
+                        onClick={() => setShareRole(option.role)}
+                        className={`flex-1 py-1.5 rounded-lg text-[11px] font-bold transition-all ${shareRole === option.role ? 'bg-white dark:bg-slate-700 shadow-sm text-indigo-600 dark:text-indigo-400' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-[10px] text-slate-400 dark:text-slate-500">
+                    Only the owner can invite people. This link opens the document for anyone who already has access.
+                  </p>
+                )}
                 <button 
                   onClick={handleCopyLink}
-                  className={`w-full flex items-center justify-center gap-2 py-3 rounded-xl text-xs font-bold transition-all transform active:scale-95 shadow-sm ${copied ? 'bg-green-500 text-white' : 'bg-indigo-600 hover:bg-indigo-700 text-white'}`}
+                  disabled={!access || creatingLink}
+                  className={`w-full flex items-center justify-center gap-2 py-3 rounded-xl text-xs font-bold transition-all transform active:scale-95 shadow-sm disabled:opacity-50 ${copied ? 'bg-green-500 text-white' : 'bg-indigo-600 hover:bg-indigo-700 text-white'}`}
                 >
                   {copied ? (
                     <>
@@ -270,13 +484,21 @@ const App: React.FC = () => {
                   ) : (
                     <>
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
-                      Share Document
+                      {access?.role === 'owner' ? (creatingLink ? 'Creating link...' : 'Copy Share Link') : 'Copy Room Link'}
                     </>
                   )}
                 </button>
               </div>
             </div>
 
+            {/* History Section */}
+            <HistoryPanel
+              versions={versions}
+              loadingId={loadingVersionId}
+              onSave={readOnly ? undefined : name => editorRef.current?.saveVersion(name)}
+              onOpen={handleOpenVersion}
+            />
+
             {/* Info Section */}
             <div className="pt-8 border-t border-slate-100 dark:border-slate-800">
                <div className="flex items-center gap-3 p-3 rounded-xl bg-slate-50 dark:bg-slate-800/30">
@@ -285,7 +507,14 @@ const App: React.FC = () => {
                  </div>
                  <div>
                    <p className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase leading-none">Status</p>
-                   <p className="text-[11px] font-bold text-green-500 mt-0.5">Connected</p>
+                   <p className={`text-[11px] font-bold mt-0.5 ${CONNECTION_LABELS[connectionStatus.state].className}`}>
+                     {CONNECTION_LABELS[connectionStatus.state].label}
+                   </p>
+                   {connectionStatus.pendingOps > 0 && (
+                     <p className="text-[10px] font-bold text-slate-400 dark:text-slate-500 mt-0.5">
+                       {connectionStatus.pendingOps} pending {connectionStatus.pendingOps === 1 ? 'change' : 'changes'}
+                     </p>
+                   )}
                  </div>
                </div>
             </div>
@@ -293,16 +522,50 @@ const App: React.FC = () => {
         </aside>
 
         {/* Workspace */}
-        <main className="flex-1 flex overflow-hidden p-8 justify-center overflow-y-auto custom-scrollbar">
-          <div className="flex-1 max-w-5xl w-full min-h-full flex flex-col">
-            <Editor 
-                ref={editorRef} 
-                user={currentUser} 
-                channelName={ROOM_NAME} 
-                darkMode={darkMode}
-                onActiveUsersChange={setActiveUsers}
-            />
-          </div>
+        <main className="flex-1 flex gap-6 overflow-hidden p-8 justify-center overflow-y-auto custom-scrollbar">
+          {access ? (
+            <>
+              <div className="flex-1 max-w-5xl w-full min-h-full flex flex-col">
+                <Editor 
+                    ref={editorRef} 
+                    user={currentUser} 
+                    channelName={roomName} 
+                    accessToken={accessToken!}
+                    readOnly={readOnly}
+                    canComment={canComment}
+                    darkMode={darkMode}
+                    onActiveUsersChange={setActiveUsers}
+                    onConnectionStatusChange={setConnectionStatus}
+                    onHistoryChange={setVersions}
+                    showAuthorship={showAuthorship}
+                    onAuthorshipChange={setAuthorship}
+                    onCommentsChange={setComments}
+                    activeCommentId={activeCommentId}
+                    onCommentSelect={setActiveCommentId}
+                    onStartComment={setCommentDraft}
+                />
+              </div>
+              <CommentsPanel
+                comments={comments}
+                draft={commentDraft}
+                activeId={activeCommentId}
+                onSubmitDraft={handleSubmitComment}
+                onCancelDraft={() => setCommentDraft(null)}
+                onReply={(threadId, text) => editorRef.current?.replyToComment(threadId, text)}
+                onResolve={(threadId, resolved) => editorRef.current?.setCommentResolved(threadId, resolved)}
+                onSelect={handleSelectComment}
+                canComment={canComment}
+              />
+            </>
+          ) : (
+            <div className="flex-1 max-w-xl self-center bg-white dark:bg-slate-900 rounded-3xl shadow-2xl border-2 border-slate-100 dark:border-slate-800 p-8 space-y-3 text-center">
+              <h2 className="text-sm font-black text-slate-800 dark:text-slate-100">You need a share link to open this document</h2>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                The link you used has no access token for <span className="font-mono font-bold">{roomName}</span>, or it has expired.
+                Ask the document's owner for a new link.
+              </p>
+            </div>
+          )}
         </main>
       </div>
     </div>
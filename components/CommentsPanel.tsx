@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { AnchoredComment } from '../lib/comments';
+import { CommentDraft, CommentMessage } from '../types';
+
+interface CommentsPanelProps {
+  comments: AnchoredComment[];
+  draft: CommentDraft | null;
+  activeId: string | null;
+  onSubmitDraft: (text: string) => void;
+  onCancelDraft: () => void;
+  onReply: (threadId: string, text: string) => void;
+  onResolve: (threadId: string, resolved: boolean) => void;
+  onSelect: (threadId: string) => void;
+  // False for viewers: threads can be read but not started, answered or resolved
+  canComment?: boolean;
+}
+
+const formatCommentTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const Quote: React.FC<{ text: string; detached?: boolean }> = ({ text, detached }) => (
+  <p className={`text-[11px] italic border-l-2 pl-2 truncate ${detached ? 'border-slate-300 text-slate-400 line-through' : 'border-amber-400 text-slate-500 dark:text-slate-400'}`}>
+    {text}
+  </p>
+);
+
+const Message: React.FC<{ message: CommentMessage }> = ({ message }) => (
+  <div>
+    <div className="flex items-baseline justify-between gap-2">
+      <span className="text-xs font-bold text-slate-700 dark:text-slate-300 truncate">{message.authorName || message.author}</span>
+      <span className="text-[10px] text-slate-400 dark:text-slate-500 shrink-0">{formatCommentTime(message.createdAt)}</span>
+    </div>
+    <p className="text-xs text-slate-600 dark:text-slate-300 whitespace-pre-wrap break-words mt-0.5">{message.text}</p>
+  </div>
+);
+
+// Textarea that submits on Ctrl/Cmd+Enter
+const Composer: React.FC<{ placeholder: string; submitLabel: string; autoFocus?: boolean; onSubmit: (text: string) => void; onCancel?: () => void }> = ({
+  placeholder,
+  submitLabel,
+  autoFocus,
+  onSubmit,
+  onCancel
+}) => {
+  const [text, setText] = useState('');
+  const submit = () => {
+    if (!text.trim()) return;
+    onSubmit(text.trim());
+    setText('');
+  };
+  return (
+    <div className="space-y-2">
+      <textarea
+        autoFocus={autoFocus}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) { e.preventDefault(); submit(); }
+          if (e.key === 'Escape' && onCancel) { e.preventDefault(); onCancel(); }
+        }}
+        rows={2}
+        maxLength={2000}
+        placeholder={placeholder}
+        className="w-full px-3 py-2 rounded-xl text-xs border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 outline-none focus:border-indigo-400 resize-none"
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button onClick={onCancel} className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={submit}
+          disabled={!text.trim()}
+          className="px-3 py-1.5 rounded-lg text-xs font-bold bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-40 transition-colors"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const CommentsPanel: React.FC<CommentsPanelProps> = ({ comments, draft, activeId, onSubmitDraft, onCancelDraft, onReply, onResolve, onSelect, canComment = true }) => {
+  const [showResolved, setShowResolved] = useState(false);
+  const open = comments.filter(comment => !comment.resolved);
+  const visible = showResolved ? comments : open;
+
+  return (
+    <aside className="w-80 shrink-0 flex flex-col bg-white dark:bg-slate-900 rounded-3xl shadow-2xl border-2 border-slate-100 dark:border-slate-800 overflow-hidden">
+      <div className="bg-slate-50 dark:bg-slate-800 border-b border-slate-100 dark:border-slate-700 px-5 py-4 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <h3 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">Comments</h3>
+          <span className="text-[10px] font-bold px-1.5 py-0.5 bg-indigo-100 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-400 rounded-md">{open.length}</span>
+        </div>
+        <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 dark:text-slate-400 cursor-pointer">
+          <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} className="accent-indigo-600" />
+          Show resolved
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-3">
+        {draft && canComment && (
+          <div className="p-3 rounded-xl border-2 border-indigo-200 dark:border-indigo-800 space-y-2">
+            <Quote text={draft.quote} />
+            <Composer autoFocus placeholder="Add a comment..." submitLabel="Comment" onSubmit={onSubmitDraft} onCancel={onCancelDraft} />
+          </div>
+        )}
+
+        {visible.length === 0 && !draft && (
+          <p className="text-xs text-slate-400 dark:text-slate-500 italic">
+            {canComment ? 'Select text and press the comment button (Ctrl+Alt+M) to start a thread.' : 'No comments yet.'}
+          </p>
+        )}
+
+        {visible.map(comment => {
+          const active = comment.id === activeId;
+          return (
+            <div
+              key={comment.id}
+              onClick={() => onSelect(comment.id)}
+              className={`p-3 rounded-xl border transition-colors cursor-pointer space-y-3 ${
+                active ? 'border-amber-300 dark:border-amber-700 bg-amber-50/60 dark:bg-amber-900/10' : 'border-slate-100 dark:border-slate-800 hover:border-slate-200 dark:hover:border-slate-700'
+              } ${comment.resolved ? 'opacity-60' : ''}`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0 flex-1">
+                  <Quote text={comment.quote} detached={comment.start === null} />
+                  {comment.start === null && <p className="text-[10px] text-slate-400 mt-1">The commented text was deleted</p>}
+                </div>
+                {canComment && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onResolve(comment.id, !comment.resolved); }}
+                    className={`shrink-0 px-2 py-1 rounded-md text-[10px] font-bold transition-colors ${comment.resolved ? 'text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20' : 'text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20'}`}
+                  >
+                    {comment.resolved ? 'Reopen' : 'Resolve'}
+                  </button>
+                )}
+              </div>
+              {comment.messages.map(message => <Message key={message.id} message={message} />)}
+              {active && !comment.resolved && canComment && (
+                <div onClick={(e) => e.stopPropagation()}>
+                  <Composer placeholder="Reply..." submitLabel="Reply" onSubmit={text => onReply(comment.id, text)} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
+
+export default CommentsPanel;
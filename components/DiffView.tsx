@@ -0,0 +1,77 @@
+import React, { useMemo } from 'react';
+import DocumentView, { CharMark } from './DocumentView';
+import { DiffChar, DiffKind, summarizeDiff } from '../lib/diff';
+import { authorName } from '../lib/authorship';
+import { Collaborator } from '../types';
+
+interface DiffViewProps {
+  diff: DiffChar[];
+  // Everyone who has joined the room, by siteId
+  authors: Record<string, Collaborator>;
+}
+
+const KIND_STYLES: Record<Exclude<DiffKind, 'equal'>, { label: string; style: React.CSSProperties; swatch: string }> = {
+  insert: { label: 'Inserted', style: { backgroundColor: 'rgba(34, 197, 94, 0.2)' }, swatch: 'bg-green-500' },
+  delete: {
+    label: 'Deleted',
+    style: { backgroundColor: 'rgba(239, 68, 68, 0.15)', color: '#dc2626', textDecoration: 'line-through' },
+    swatch: 'bg-red-500'
+  },
+  format: {
+    label: 'Formatted',
+    style: { backgroundColor: 'rgba(245, 158, 11, 0.2)', borderBottom: '2px dotted #f59e0b' },
+    swatch: 'bg-amber-500'
+  }
+};
+
+// Sites are per page load, so only the relay's record of who joined under
+// them has a name to show
+const authorLabel = (author: string | null, authors: Record<string, Collaborator>) =>
+  author && authors[author] ? authorName(authors[author]) : 'Unknown';
+
+const markFor = ({ kind, author, changed }: DiffChar, authors: Record<string, Collaborator>): CharMark | undefined => {
+  if (kind === 'equal') return undefined;
+  const { label, style } = KIND_STYLES[kind];
+  const detail = changed ? ` (${changed.join(', ')})` : '';
+  return { id: `${kind}:${author}:${detail}`, style, title: `${label} by ${authorLabel(author, authors)}${detail}` };
+};
+
+// Two document states merged into one, changes coloured inline and credited
+// to the person who made them (hover a change to see who)
+const DiffView: React.FC<DiffViewProps> = ({ diff, authors }) => {
+  const chars = useMemo(() => diff.map(entry => entry.char), [diff]);
+  const marks = useMemo(() => diff.map(entry => markFor(entry, authors)), [diff, authors]);
+  const summary = useMemo(() => summarizeDiff(diff, authors), [diff, authors]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-[11px] font-bold text-slate-500 dark:text-slate-400">
+        {(Object.keys(KIND_STYLES) as (keyof typeof KIND_STYLES)[]).map(kind => (
+          <span key={kind} className="flex items-center gap-1.5">
+            <span className={`w-2 h-2 rounded-full ${KIND_STYLES[kind].swatch}`} />
+            {KIND_STYLES[kind].label}
+          </span>
+        ))}
+      </div>
+
+      {summary.length === 0 ? (
+        <p className="text-xs text-slate-400 dark:text-slate-500 italic">No changes</p>
+      ) : (
+        <div className="space-y-1">
+          {summary.map(entry => (
+            <div key={entry.author ?? ''} className="flex items-center gap-3 text-xs">
+              <span className="font-bold text-slate-700 dark:text-slate-300 truncate flex-1">{authorLabel(entry.author, authors)}</span>
+              {entry.inserted > 0 && <span className="font-bold text-green-600 dark:text-green-400">+{entry.inserted}</span>}
+              {entry.deleted > 0 && <span className="font-bold text-red-600 dark:text-red-400">−{entry.deleted}</span>}
+              {entry.formatted > 0 && <span className="font-bold text-amber-600 dark:text-amber-400">~{entry.formatted}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <DocumentView chars={chars} marks={marks} />
+    </div>
+  );
+};
+
+export default DiffView;
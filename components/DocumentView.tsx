@@ -0,0 +1,94 @@
+import React from 'react';
+import { LINK_COLOR, SUGGESTION_COLORS } from '../constants';
+import { sameAttributes } from '../lib/richText';
+import { displayAttributes, isHeading, isList, listMarker, splitBlocks } from '../lib/blocks';
+import { BlockAttributes, CRDTAttributes, CRDTChar } from '../types';
+
+// Pending suggestions override the text's own colours: inserts are green,
+// proposed deletes red and struck through
+export const attributeStyle = (attr: CRDTAttributes): React.CSSProperties => ({
+  fontWeight: attr.bold ? 'bold' : 'normal',
+  fontStyle: attr.italic ? 'italic' : 'normal',
+  textDecoration: attr.suggestDelete ? 'line-through' : attr.underline || attr.link || attr.suggestInsert ? 'underline' : 'none',
+  fontSize: attr.fontSize,
+  fontFamily: attr.code ? 'JetBrains Mono, monospace' : attr.fontFamily,
+  color: attr.suggestDelete ? SUGGESTION_COLORS.delete : attr.suggestInsert ? SUGGESTION_COLORS.insert : attr.color ?? (attr.link ? LINK_COLOR : undefined),
+  backgroundColor: attr.suggestDelete
+    ? 'rgba(239, 68, 68, 0.1)'
+    : attr.suggestInsert
+      ? 'rgba(34, 197, 94, 0.15)'
+      : attr.backgroundColor ?? (attr.code ? 'rgba(148, 163, 184, 0.2)' : undefined),
+  borderRadius: attr.code ? '4px' : undefined
+});
+
+export const blockStyle = (attr: BlockAttributes): React.CSSProperties => ({
+  textAlign: attr.align,
+  marginLeft: attr.indent ? `${attr.indent * 2}em` : undefined,
+  paddingLeft: isList(attr.block) ? '2em' : undefined
+});
+
+export const blockClassName = (attr: BlockAttributes) => {
+  if (isHeading(attr.block)) return 'mt-2';
+  if (attr.block === 'quote') return 'border-l-4 border-slate-300 dark:border-slate-600 pl-4 text-slate-500 dark:text-slate-400';
+  if (attr.block === 'code') return 'bg-slate-100 dark:bg-slate-800 px-4';
+  return '';
+};
+
+// Extra styling for a char on top of its attributes, e.g. diff colours;
+// neighbouring chars with the same mark id share a span
+export interface CharMark {
+  id: string;
+  className?: string;
+  style?: React.CSSProperties;
+  title?: string;
+}
+
+interface DocumentViewProps {
+  chars: CRDTChar[];
+  // Aligned with chars
+  marks?: (CharMark | undefined)[];
+  className?: string;
+}
+
+// Read-only rendering of a document, laid out the way the editor shows it
+const DocumentView: React.FC<DocumentViewProps> = ({ chars, marks = [], className = '' }) => (
+  <div className={`whitespace-pre-wrap break-words text-slate-900 dark:text-slate-200 ${className}`}>
+    {splitBlocks(chars).map(block => {
+      const runs: React.ReactNode[] = [];
+      let runStart = block.start;
+      for (let i = block.start; i <= block.end; i++) {
+        if (
+          i > runStart &&
+          (i === block.end || marks[i]?.id !== marks[runStart]?.id || !sameAttributes(chars[i].attributes, chars[runStart].attributes))
+        ) {
+          const attr = displayAttributes(chars[runStart].attributes, block.attributes);
+          const mark = marks[runStart];
+          runs.push(
+            <span key={runStart} className={mark?.className} title={mark?.title} style={{ ...attributeStyle(attr), ...mark?.style }}>
+              {chars.slice(runStart, i).map(c => c.value).join('')}
+            </span>
+          );
+          runStart = i;
+        }
+      }
+      // A marked line break is otherwise invisible
+      const breakMark = block.terminator ? marks[block.end] : undefined;
+      if (breakMark) {
+        runs.push(<span key="break" className={breakMark.className} title={breakMark.title} style={breakMark.style}>¶</span>);
+      }
+      const marker = listMarker(block);
+      return (
+        <div
+          key={block.start}
+          data-marker={marker || undefined}
+          className={`editor-block ${blockClassName(block.attributes)}`}
+          style={blockStyle(block.attributes)}
+        >
+          {runs.length > 0 ? runs : <br />}
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default DocumentView;
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { HistoryVersion } from '../types';
+
+interface HistoryPanelProps {
+  versions: HistoryVersion[];
+  loadingId: string | null;
+  // Left out when the user may not save versions
+  onSave?: (name: string) => void;
+  onOpen: (version: HistoryVersion) => void;
+}
+
+export const formatVersionTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const versionLabel = (version: HistoryVersion) => version.name || (version.auto ? 'Automatic save' : 'Saved version');
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ versions, loadingId, onSave, onOpen }) => {
+  const [name, setName] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave?.(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">History</h3>
+        <span className="text-[10px] font-bold px-1.5 py-0.5 bg-indigo-100 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-400 rounded-md">{versions.length}</span>
+      </div>
+      {onSave && (
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={80}
+            placeholder="Version name (optional)"
+            className="flex-1 min-w-0 px-3 py-2 rounded-xl text-xs border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 outline-none focus:border-indigo-400"
+          />
+          <button type="submit" className="px-3 py-2 rounded-xl text-xs font-bold bg-indigo-50 dark:bg-indigo-950/30 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-100 dark:hover:bg-indigo-900/40 transition-colors">
+            Save
+          </button>
+        </form>
+      )}
+      <div className="space-y-2 max-h-64 overflow-y-auto custom-scrollbar pr-1">
+        {versions.length === 0 && <p className="text-xs text-slate-400 dark:text-slate-500 italic">No versions yet</p>}
+        {[...versions].reverse().map(version => (
+          <button
+            key={version.id}
+            onClick={() => onOpen(version)}
+            disabled={loadingId !== null}
+            className="w-full text-left p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 hover:border-indigo-200 dark:hover:border-indigo-800 transition-colors disabled:cursor-wait"
+          >
+            <p className={`text-xs font-bold truncate ${version.name ? 'text-slate-700 dark:text-slate-300' : 'text-slate-500 dark:text-slate-400'}`}>
+              {loadingId === version.id ? 'Loading...' : versionLabel(version)}
+            </p>
+            <p className="text-[10px] text-slate-400 dark:text-slate-500 mt-0.5 truncate">
+              {formatVersionTime(version.createdAt)} · {version.charCount.toLocaleString()} chars
+              {version.createdBy ? ` · ${version.createdBy}` : ''}
+            </p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
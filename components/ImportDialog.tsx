@@ -0,0 +1,63 @@
+import React from 'react';
+import { ImportMode } from '../types';
+
+interface ImportDialogProps {
+  fileName: string;
+  charCount: number;
+  onChoose: (mode: ImportMode) => void;
+  onCancel: () => void;
+}
+
+const OPTIONS: { mode: ImportMode; title: string; description: string }[] = [
+  { mode: 'cursor', title: 'Insert at cursor', description: 'Place the file where your caret was last.' },
+  { mode: 'append', title: 'Append to end', description: 'Add the file after the existing text.' },
+  { mode: 'replace', title: 'Replace document', description: 'Remove the current text for everyone, then insert the file.' },
+];
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ fileName, charCount, onChoose, onCancel }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm" onClick={onCancel}>
+      <div
+        className="w-full max-w-md bg-white dark:bg-slate-900 rounded-2xl shadow-2xl border border-slate-200 dark:border-slate-800 p-6 space-y-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <h2 className="text-sm font-black text-slate-800 dark:text-slate-100">Import document</h2>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 truncate">
+            {fileName} · {charCount.toLocaleString()} characters
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {OPTIONS.map(option => (
+            <button
+              key={option.mode}
+              onClick={() => onChoose(option.mode)}
+              className={`w-full text-left p-3 rounded-xl border transition-colors ${
+                option.mode === 'replace'
+                  ? 'border-red-100 dark:border-red-900/40 hover:bg-red-50 dark:hover:bg-red-950/30'
+                  : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800'
+              }`}
+            >
+              <p className={`text-xs font-bold ${option.mode === 'replace' ? 'text-red-600 dark:text-red-400' : 'text-slate-700 dark:text-slate-200'}`}>
+                {option.title}
+              </p>
+              <p className="text-[11px] text-slate-500 dark:text-slate-400 mt-0.5">{option.description}</p>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { COLORS } from '../constants';
+import { MAX_NAME_LENGTH } from '../services/userProfile';
+import { UserProfile } from '../types';
+
+interface ProfileDialogProps {
+  profile: UserProfile;
+  onSave: (profile: UserProfile) => void;
+  // Left out on first visit, when a name is required
+  onCancel?: () => void;
+}
+
+const ProfileDialog: React.FC<ProfileDialogProps> = ({ profile, onSave, onCancel }) => {
+  const [name, setName] = useState(profile.name);
+  const [color, setColor] = useState(profile.color);
+  const trimmed = name.trim();
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (trimmed) onSave({ ...profile, name: trimmed, color });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm" onClick={onCancel}>
+      <form
+        onSubmit={submit}
+        className="w-full max-w-sm bg-white dark:bg-slate-900 rounded-2xl shadow-2xl border border-slate-200 dark:border-slate-800 p-6 space-y-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <h2 className="text-sm font-black text-slate-800 dark:text-slate-100">{onCancel ? 'Your profile' : 'Welcome'}</h2>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+            Collaborators see this name and colour next to your cursor and your edits.
+          </p>
+        </div>
+
+        <label className="block space-y-1.5">
+          <span className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">Display name</span>
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={MAX_NAME_LENGTH}
+            placeholder="e.g. Sam Rivera"
+            className="w-full px-3 py-2 rounded-xl text-sm border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 outline-none focus:border-indigo-400"
+          />
+        </label>
+
+        <div className="space-y-1.5">
+          <span className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">Colour</span>
+          <div className="flex flex-wrap gap-2">
+            {COLORS.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setColor(option)}
+                className={`w-7 h-7 rounded-full transition-transform ${option === color ? 'ring-2 ring-offset-2 ring-slate-400 dark:ring-offset-slate-900 scale-110' : 'hover:scale-110'}`}
+                style={{ backgroundColor: option }}
+                title={option}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 p-3 rounded-xl bg-slate-50 dark:bg-slate-800/50">
+          <div className="w-8 h-8 rounded-full flex items-center justify-center text-xs text-white font-bold" style={{ backgroundColor: color }}>
+            {(trimmed[0] || '?').toUpperCase()}
+          </div>
+          <span className="text-xs font-bold text-slate-700 dark:text-slate-300 truncate">{trimmed || 'Your name'}</span>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={!trimmed}
+            className="px-4 py-2 rounded-xl text-xs font-bold bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white transition-colors"
+          >
+            {onCancel ? 'Save' : 'Start editing'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ProfileDialog;
@@ -0,0 +1,129 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import DocumentView from './DocumentView';
+import DiffView from './DiffView';
+import { formatVersionTime, versionLabel } from './HistoryPanel';
+import { diffDocuments } from '../lib/diff';
+import { CRDTChar, Collaborator, HistorySnapshot, HistoryVersion } from '../types';
+
+interface VersionPreviewProps {
+  version: HistorySnapshot;
+  // Other versions it can be compared with
+  versions: HistoryVersion[];
+  loadVersion: (id: string) => Promise<HistorySnapshot | null>;
+  currentDocument: () => CRDTChar[];
+  deletedBy: (char: CRDTChar) => string | null;
+  // Everyone who has joined the room, by siteId
+  getAuthors: () => Record<string, Collaborator>;
+  // Left out when the user may not change the document
+  onRestore?: () => void;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+const VersionPreview: React.FC<VersionPreviewProps> = ({ version, versions, loadVersion, currentDocument, deletedBy, getAuthors, onRestore, onClose }) => {
+  const [mode, setMode] = useState<'preview' | 'changes'>('preview');
+  const [compareId, setCompareId] = useState(CURRENT);
+  const [compareVersion, setCompareVersion] = useState<HistorySnapshot | null>(null);
+  const [compareError, setCompareError] = useState(false);
+
+  useEffect(() => {
+    setCompareVersion(null);
+    setCompareError(false);
+    if (compareId === CURRENT) return;
+    let cancelled = false;
+    loadVersion(compareId).then(loaded => {
+      if (cancelled) return;
+      if (loaded) setCompareVersion(loaded);
+      else setCompareError(true);
+    });
+    return () => { cancelled = true; };
+  }, [compareId, loadVersion]);
+
+  // Always older → newer, so inserts are what was added over time
+  const diff = useMemo(() => {
+    if (mode !== 'changes') return null;
+    if (compareId === CURRENT) return diffDocuments(version.state, currentDocument(), deletedBy);
+    if (!compareVersion) return null;
+    const [before, after] = compareVersion.createdAt < version.createdAt ? [compareVersion, version] : [version, compareVersion];
+    return diffDocuments(before.state, after.state, deletedBy);
+  }, [mode, compareId, compareVersion, version, currentDocument, deletedBy]);
+  const authors = useMemo(() => (diff ? getAuthors() : {}), [diff, getAuthors]);
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${active ? 'bg-white dark:bg-slate-700 shadow-sm text-indigo-600 dark:text-indigo-400' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[85vh] flex flex-col bg-white dark:bg-slate-900 rounded-2xl shadow-2xl border border-slate-200 dark:border-slate-800 p-6 space-y-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-sm font-black text-slate-800 dark:text-slate-100 truncate">{versionLabel(version)}</h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 truncate">
+              {formatVersionTime(version.createdAt)} · {version.charCount.toLocaleString()} characters
+              {version.createdBy ? ` · saved by ${version.createdBy}` : ''}
+            </p>
+          </div>
+          <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl shrink-0">
+            <button onClick={() => setMode('preview')} className={tabClass(mode === 'preview')}>Preview</button>
+            <button onClick={() => setMode('changes')} className={tabClass(mode === 'changes')}>Changes</button>
+          </div>
+        </div>
+
+        {mode === 'changes' && (
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-500 dark:text-slate-400">
+            Compare with
+            <select
+              value={compareId}
+              onChange={(e) => setCompareId(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 outline-none"
+            >
+              <option value={CURRENT}>Current document</option>
+              {[...versions].reverse().filter(other => other.id !== version.id).map(other => (
+                <option key={other.id} value={other.id}>
+                  {versionLabel(other)} · {formatVersionTime(other.createdAt)}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar rounded-xl border border-slate-200 dark:border-slate-700 p-6">
+          {mode === 'preview' ? (
+            version.state.length === 0
+              ? <p className="text-xs text-slate-400 dark:text-slate-500 italic">This version is empty</p>
+              : <DocumentView chars={version.state} />
+          ) : diff ? (
+            <DiffView diff={diff} authors={authors} />
+          ) : (
+            <p className="text-xs text-slate-400 dark:text-slate-500 italic">
+              {compareError ? 'That version could not be loaded.' : 'Loading...'}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+          >
+            Close
+          </button>
+          {onRestore && (
+            <button
+              onClick={onRestore}
+              className="px-4 py-2 rounded-xl text-xs font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors"
+            >
+              Restore this version
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionPreview;
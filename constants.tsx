@@ -11,4 +11,53 @@ export const COLORS = [
   '#f472b6', // pink
 ];
 
-export const ROOM_NAME = 'shared-collaborative-doc';
+// Used when the URL does not name a room (e.g. plain http://host:port/)
+export const DEFAULT_ROOM_NAME = 'shared-collaborative-doc';
+
+// Font sizes and families the editor toolbar offers; imports snap to these
+export const FONT_SIZES = ['12px', '14px', '16px', '18px', '24px', '32px', '48px'];
+export const FONT_FAMILIES = [
+  { name: 'Sans', value: 'Inter, system-ui, sans-serif' },
+  { name: 'Serif', value: 'Georgia, serif' },
+  { name: 'Times New Roman', value: '"Times New Roman", Times, serif' },
+  { name: 'Arial', value: 'Arial, Helvetica, sans-serif' },
+  { name: 'Mono', value: 'JetBrains Mono, monospace' }
+];
+
+// What a fresh editor types with; imports fill unset fonts with these
+export const DEFAULT_FONT_SIZE = '18px';
+export const DEFAULT_FONT_FAMILY = FONT_FAMILIES[0].value;
+
+// Heading blocks h1-h6 render bold at these sizes
+export const HEADING_FONT_SIZES = ['32px', '24px', '18px', '16px', '16px', '16px'];
+
+// Palettes of the text colour and highlight pickers
+export const TEXT_COLORS = [
+  { name: 'Black', value: '#0f172a' },
+  { name: 'Gray', value: '#64748b' },
+  { name: 'Red', value: '#dc2626' },
+  { name: 'Orange', value: '#ea580c' },
+  { name: 'Green', value: '#16a34a' },
+  { name: 'Blue', value: '#2563eb' },
+  { name: 'Purple', value: '#9333ea' },
+  { name: 'Pink', value: '#db2777' }
+];
+export const HIGHLIGHT_COLORS = [
+  { name: 'Yellow', value: '#fef08a' },
+  { name: 'Green', value: '#bbf7d0' },
+  { name: 'Blue', value: '#bfdbfe' },
+  { name: 'Purple', value: '#e9d5ff' },
+  { name: 'Pink', value: '#fbcfe8' },
+  { name: 'Orange', value: '#fed7aa' },
+  { name: 'Gray', value: '#e2e8f0' }
+];
+
+// Rendered colour of links without an explicit text colour
+export const LINK_COLOR = '#4f46e5';
+
+// Text colour of pending suggested inserts and deletes
+export const SUGGESTION_COLORS = { insert: '#16a34a', delete: '#dc2626' };
+
+// Background of commented text (brighter for the selected thread) and the
+// underline that stays visible over suggestions and authorship tints
+export const COMMENT_HIGHLIGHT = { idle: 'rgba(250, 204, 21, 0.25)', active: 'rgba(250, 204, 21, 0.55)', underline: '#f59e0b' };
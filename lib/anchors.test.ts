@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { LSEQ } from './crdt';
+import { caretId, caretIndex } from './anchors';
+
+describe('caret anchors', () => {
+  it('keep a remote caret after the same char while text moves', () => {
+    const a = new LSEQ('a');
+    [...'abc'].forEach((value, i) => a.localInsert(i, value));
+    const caret = caretId(a.state, 2); // after 'b'
+
+    a.localInsert(0, 'x');
+    expect(caretIndex(a.state, caret)).toBe(3);
+    a.localDelete(2); // 'b' itself
+    expect(caretIndex(a.state, caret)).toBe(2);
+  });
+
+  it('pin the start of the document to null', () => {
+    const a = new LSEQ('a');
+    a.localInsert(0, 'x');
+    expect(caretId(a.state, 0)).toBeNull();
+    expect(caretIndex(a.state, null)).toBe(0);
+  });
+});
@@ -0,0 +1,28 @@
+import { CharId, CRDTChar } from '../types';
+import { compareCharIds } from './crdt';
+
+// Places in the document pinned to char identities instead of indices, so
+// they stay with the text while others type. Identities of deleted chars
+// still resolve, as their place in document order never changes.
+
+export const charId = (char: CRDTChar): CharId => ({ position: char.position, siteId: char.siteId, ties: char.ties });
+
+// First index whose char does not sort before `id` (or, with `inclusive`,
+// not at or before it)
+export const boundary = (chars: CRDTChar[], id: CharId, inclusive: boolean) => {
+  let low = 0;
+  let high = chars.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    const cmp = compareCharIds(chars[mid], id);
+    if (cmp < 0 || (inclusive && cmp === 0)) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+// A caret is pinned to the char before it; null is the start of the document
+export const caretId = (chars: CRDTChar[], index: number): CharId | null =>
+  index > 0 && chars[index - 1] ? charId(chars[index - 1]) : null;
+
+export const caretIndex = (chars: CRDTChar[], id: CharId | null) => (id ? boundary(chars, id, true) : 0);
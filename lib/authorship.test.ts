@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { CRDTChar, Collaborator } from '../types';
+import { authorName, authorStats, authorTint, authorshipKey, fallbackAuthor } from './authorship';
+
+const typed = (siteId: string, count: number): CRDTChar[] =>
+  Array.from({ length: count }, (_, i) => ({ value: 'x', position: [i], siteId }));
+
+describe('authorship', () => {
+  it('gives unknown sites a stable colour and names them by id', () => {
+    expect(fallbackAuthor('site-1')).toEqual(fallbackAuthor('site-1'));
+    expect(authorName(fallbackAuthor('site-1'))).toBe('site-1');
+  });
+
+  it('tints hex colours and passes others through', () => {
+    expect(authorTint('#112233')).toBe('#11223340');
+    expect(authorTint('rebeccapurple')).toBe('rebeccapurple');
+  });
+
+  it('groups chars typed by one site within the same minute', () => {
+    const at = (createdAt?: number): CRDTChar => ({ value: 'x', position: [1], siteId: 'a', createdAt });
+    expect(authorshipKey(at(60000))).toBe(authorshipKey(at(119999)));
+    expect(authorshipKey(at(60000))).not.toBe(authorshipKey(at(120000)));
+    expect(authorshipKey(at())).toBe('a:');
+  });
+
+  it('counts chars per person across their sites, most prolific first', () => {
+    const authors: Record<string, Collaborator> = {
+      laptop: { id: 'laptop', userId: 'ada', name: 'Ada', color: '#000000' },
+      phone: { id: 'phone', userId: 'ada', name: 'Ada', color: '#000000' },
+      other: { id: 'other', userId: 'bob', name: 'Bob', color: '#ffffff' }
+    };
+    const stats = authorStats([...typed('laptop', 2), ...typed('other', 3), ...typed('phone', 2), ...typed('ghost', 1)], authors);
+    expect(stats.map(s => [authorName(s.author), s.charCount])).toEqual([['Ada', 4], ['Bob', 3], ['ghost', 1]]);
+  });
+});
@@ -0,0 +1,43 @@
+import { COLORS } from '../constants';
+import { CRDTChar, Collaborator } from '../types';
+
+export interface AuthorStats {
+  author: Collaborator;
+  charCount: number;
+}
+
+// Sites the relay has never introduced still get a stable colour
+export const fallbackAuthor = (siteId: string): Collaborator => {
+  let hash = 0;
+  for (let i = 0; i < siteId.length; i++) hash = (hash * 31 + siteId.charCodeAt(i)) | 0;
+  return { id: siteId, name: '', color: COLORS[Math.abs(hash) % COLORS.length] };
+};
+
+export const authorName = (author: Collaborator) => author.name || author.id;
+
+// Background tint for text by this author: the colour at 25% opacity
+export const authorTint = (color: string) => (/^#[0-9a-f]{6}$/i.test(color) ? `${color}40` : color);
+
+// Chars typed by the same site within the same minute share a run, so
+// hovering shows one author and one time
+export const authorshipKey = (char: CRDTChar) =>
+  `${char.siteId}:${char.createdAt ? Math.floor(char.createdAt / 60000) : ''}`;
+
+export const authorshipTitle = (author: Collaborator, createdAt?: number) =>
+  createdAt
+    ? `${authorName(author)} · ${new Date(createdAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`
+    : authorName(author);
+
+// Visible chars per person (all of their sites counted together), most
+// prolific first
+export const authorStats = (chars: CRDTChar[], authors: Record<string, Collaborator>): AuthorStats[] => {
+  const stats = new Map<string, AuthorStats>();
+  chars.forEach(char => {
+    const author = authors[char.siteId] ?? fallbackAuthor(char.siteId);
+    const key = author.userId || author.id;
+    const entry = stats.get(key);
+    if (entry) entry.charCount++;
+    else stats.set(key, { author, charCount: 1 });
+  });
+  return [...stats.values()].sort((a, b) => b.charCount - a.charCount);
+};
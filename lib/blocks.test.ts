@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { CRDTAttributes, CRDTChar } from '../types';
+import { blockAttributesOf, blockIndexAt, charsToBlocks, displayAttributes, inlineAttributesOf, listMarker, splitBlocks } from './blocks';
+
+const line = (text: string, attributes?: CRDTAttributes): CRDTChar[] =>
+  [...text, '\n'].map((value, i) => ({ value, position: [i], siteId: 'a', attributes: value === '\n' ? attributes : undefined }));
+
+describe('splitBlocks', () => {
+  it('takes block attributes from the terminating newline', () => {
+    const chars = [...line('Title', { block: 'h1', align: 'center' }), ...line('body').slice(0, 4)];
+    const blocks = splitBlocks(chars);
+    expect(blocks.map(b => [b.start, b.end, b.attributes])).toEqual([
+      [0, 5, { block: 'h1', align: 'center' }],
+      [6, 10, {}]
+    ]);
+    expect(blocks[1].terminator).toBeNull();
+  });
+
+  it('does not add an empty block after a final newline, but keeps one for an empty document', () => {
+    expect(splitBlocks(line('x'))).toHaveLength(1);
+    expect(splitBlocks([])).toEqual([{ start: 0, end: 0, terminator: null, attributes: {} }]);
+  });
+
+  it('numbers lists per indent level and restarts after other blocks', () => {
+    const chars = [
+      ...line('one', { block: 'numbered' }),
+      ...line('nested', { block: 'numbered', indent: 1 }),
+      ...line('two', { block: 'numbered' }),
+      ...line('break'),
+      ...line('again', { block: 'numbered' })
+    ];
+    const blocks = splitBlocks(chars);
+    expect(blocks.map(b => b.number)).toEqual([1, 1, 2, undefined, 1]);
+    expect(blocks.map(listMarker)).toEqual(['1.', '1.', '2.', '', '1.']);
+  });
+
+  it('finds the block of a caret, counting the caret before a terminator as inside', () => {
+    const blocks = splitBlocks([...line('ab'), ...line('cd')]);
+    expect(blockIndexAt(blocks, 2)).toBe(0);
+    expect(blockIndexAt(blocks, 3)).toBe(1);
+    expect(blockIndexAt(blocks, 99)).toBe(1);
+  });
+});
+
+describe('block attributes', () => {
+  it('separates block keys from inline ones and drops defaults', () => {
+    const attributes: CRDTAttributes = { bold: true, block: 'quote', align: 'left', indent: 0 };
+    expect(blockAttributesOf(attributes)).toEqual({ block: 'quote' });
+    expect(inlineAttributesOf(attributes)).toEqual({ bold: true });
+  });
+
+  it('styles headings and code blocks for display', () => {
+    expect(displayAttributes({ italic: true }, { block: 'h2' })).toMatchObject({ italic: true, bold: true });
+    expect(displayAttributes({}, { block: 'code' })).toEqual({ code: true });
+    expect(charsToBlocks(line('hi', { block: 'h1' }))[0].runs[0].attributes).toHaveProperty('fontSize');
+  });
+});
@@ -0,0 +1,110 @@
+import { BlockAttributes, BlockType, CRDTAttributes, CRDTChar, RichTextRun } from '../types';
+import { HEADING_FONT_SIZES } from '../constants';
+import { charsToRuns } from './richText';
+
+// A block is the text between two '\n' chars; its attributes live on the
+// '\n' that ends it. The text after the last '\n' has no terminator and is
+// a plain paragraph, except that an empty tail is not a block of its own:
+// a document ending in '\n' ends with the block that '\n' terminates.
+
+export const BLOCK_KEYS: (keyof BlockAttributes)[] = ['block', 'align', 'indent'];
+export const MAX_INDENT = 8;
+
+export interface DocumentBlock {
+  // Index of the first content char and of the terminating '\n' (or the
+  // document length for an unterminated last block)
+  start: number;
+  end: number;
+  terminator: CRDTChar | null;
+  attributes: BlockAttributes;
+  // 1-based position within a numbered list
+  number?: number;
+}
+
+export const isHeading = (block: BlockType | undefined) => !!block && /^h[1-6]$/.test(block);
+export const isList = (block: BlockType | undefined) => block === 'bullet' || block === 'numbered';
+
+export const headingLevel = (block: BlockType | undefined) => (isHeading(block) ? Number(block!.slice(1)) : 0);
+
+export const blockAttributesOf = (attributes: CRDTAttributes = {}): BlockAttributes => {
+  const picked: BlockAttributes = {};
+  if (attributes.block) picked.block = attributes.block;
+  if (attributes.align && attributes.align !== 'left') picked.align = attributes.align;
+  if (attributes.indent) picked.indent = attributes.indent;
+  return picked;
+};
+
+// Drops block keys, e.g. from the toolbar state before it styles new chars
+export const inlineAttributesOf = (attributes: CRDTAttributes = {}): CRDTAttributes => {
+  const inline = { ...attributes };
+  BLOCK_KEYS.forEach(key => delete inline[key]);
+  return inline;
+};
+
+export const splitBlocks = (chars: CRDTChar[]): DocumentBlock[] => {
+  const blocks: DocumentBlock[] = [];
+  // Counters per indent level for numbered lists
+  let counters: number[] = [];
+  let start = 0;
+
+  const pushBlock = (end: number, terminator: CRDTChar | null) => {
+    const attributes = blockAttributesOf(terminator?.attributes);
+    const block: DocumentBlock = { start, end, terminator, attributes };
+    if (attributes.block === 'numbered') {
+      const level = attributes.indent || 0;
+      counters = counters.slice(0, level + 1);
+      counters[level] = (counters[level] || 0) + 1;
+      block.number = counters[level];
+    } else if (attributes.block !== 'bullet') {
+      counters = [];
+    }
+    blocks.push(block);
+    start = end + 1;
+  };
+
+  chars.forEach((char, index) => {
+    if (char.value === '\n') pushBlock(index, char);
+  });
+  if (start < chars.length || blocks.length === 0) pushBlock(chars.length, null);
+  return blocks;
+};
+
+// The block containing caret position `index`; a caret right before a
+// terminator belongs to that terminator's block
+export const blockIndexAt = (blocks: DocumentBlock[], index: number) => {
+  const found = blocks.findIndex(block => index >= block.start && index <= block.end);
+  return found < 0 ? blocks.length - 1 : found;
+};
+
+// How a char looks inside its block: headings are bold at heading sizes and
+// code blocks are monospace, whatever the char's own attributes say
+export const displayAttributes = (attributes: CRDTAttributes = {}, block: BlockAttributes = {}): CRDTAttributes => {
+  const level = headingLevel(block.block);
+  if (level > 0) return { ...attributes, bold: true, fontSize: HEADING_FONT_SIZES[level - 1] };
+  if (block.block === 'code') return { ...attributes, code: true };
+  return attributes;
+};
+
+export const listMarker = (block: Pick<DocumentBlock, 'attributes' | 'number'>) => {
+  if (block.attributes.block === 'bullet') return '•';
+  if (block.attributes.block === 'numbered') return `${block.number}.`;
+  return '';
+};
+
+export interface RichTextBlock {
+  attributes: BlockAttributes;
+  number?: number;
+  runs: RichTextRun[];
+}
+
+// Blocks with display attributes applied, for exporters that render what
+// the editor shows
+export const charsToBlocks = (chars: CRDTChar[]): RichTextBlock[] =>
+  splitBlocks(chars).map(block => ({
+    attributes: block.attributes,
+    number: block.number,
+    runs: charsToRuns(chars.slice(block.start, block.end)).map(run => ({
+      text: run.text,
+      attributes: displayAttributes(run.attributes, block.attributes),
+    })),
+  }));
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { CommentThread } from '../types';
+import { LSEQ } from './crdt';
+import { anchorComments, anchorFor, anchorRange, commentsByChar } from './comments';
+
+const thread = (id: string, anchor: CommentThread['anchor'], createdAt = 0): CommentThread =>
+  ({ id, anchor, quote: '', messages: [], resolved: false, createdAt });
+
+describe('comment anchors', () => {
+  it('follow their text while others type around and inside it', () => {
+    const doc = new LSEQ('a');
+    [...'hello world'].forEach((value, i) => doc.localInsert(i, value));
+    const anchor = anchorFor(doc.state, 6, 11)!;
+
+    doc.localInsert(0, '>');
+    doc.localInsert(9, '-');
+    const range = anchorRange(doc.state, anchor)!;
+    expect(doc.text.slice(range.start, range.end)).toBe('wo-rld');
+  });
+
+  it('survive deleting the anchor chars themselves', () => {
+    const doc = new LSEQ('a');
+    [...'abcd'].forEach((value, i) => doc.localInsert(i, value));
+    const anchor = anchorFor(doc.state, 1, 3)!;
+    doc.localDelete(1);
+    expect(anchorRange(doc.state, anchor)).toEqual({ start: 1, end: 2 });
+    doc.localDelete(1);
+    expect(anchorRange(doc.state, anchor)).toBeNull();
+  });
+
+  it('is null for an empty selection', () => {
+    expect(anchorFor([], 0, 0)).toBeNull();
+  });
+});
+
+describe('comment threads', () => {
+  const doc = new LSEQ('a');
+  [...'abcdef'].forEach((value, i) => doc.localInsert(i, value));
+  const chars = doc.state;
+
+  it('highlights chars covered by open threads only', () => {
+    const threads = [thread('t1', anchorFor(chars, 0, 2)!), { ...thread('t2', anchorFor(chars, 1, 3)!), resolved: true }];
+    expect(commentsByChar(chars, threads)).toEqual([['t1'], ['t1']]);
+  });
+
+  it('orders threads by position, orphans last', () => {
+    const orphan = thread('gone', { start: { position: [99, 1], siteId: 'z' }, end: { position: [99, 1], siteId: 'z' } });
+    const ordered = anchorComments(chars, [thread('late', anchorFor(chars, 4, 5)!), orphan, thread('early', anchorFor(chars, 0, 1)!)]);
+    expect(ordered.map(t => [t.id, t.start])).toEqual([['early', 0], ['late', 4], ['gone', null]]);
+  });
+});
@@ -0,0 +1,36 @@
+import { CommentAnchor, CommentThread, CRDTChar } from '../types';
+import { boundary, charId } from './anchors';
+
+export interface AnchoredComment extends CommentThread {
+  // Index of the first covered char, or null once all of its text is gone
+  start: number | null;
+}
+
+// Anchor for chars [start, end)
+export const anchorFor = (chars: CRDTChar[], start: number, end: number): CommentAnchor | null =>
+  end > start && chars[end - 1] ? { start: charId(chars[start]), end: charId(chars[end - 1]) } : null;
+
+// The visible chars an anchor covers as [start, end), or null if none are left
+export const anchorRange = (chars: CRDTChar[], anchor: CommentAnchor): { start: number; end: number } | null => {
+  const start = boundary(chars, anchor.start, false);
+  const end = boundary(chars, anchor.end, true);
+  return end > start ? { start, end } : null;
+};
+
+// Open thread ids covering each char, for highlighting
+export const commentsByChar = (chars: CRDTChar[], threads: CommentThread[]): (string[] | undefined)[] => {
+  const covered: (string[] | undefined)[] = [];
+  threads.forEach(thread => {
+    if (thread.resolved) return;
+    const range = anchorRange(chars, thread.anchor);
+    if (!range) return;
+    for (let i = range.start; i < range.end; i++) (covered[i] ??= []).push(thread.id);
+  });
+  return covered;
+};
+
+// Threads in document order; those whose text is gone go last
+export const anchorComments = (chars: CRDTChar[], threads: CommentThread[]): AnchoredComment[] =>
+  threads
+    .map(thread => ({ ...thread, start: anchorRange(chars, thread.anchor)?.start ?? null }))
+    .sort((a, b) => (a.start ?? Infinity) - (b.start ?? Infinity) || a.createdAt - b.createdAt);
@@ -0,0 +1,309 @@
+import { describe, expect, it } from 'vitest';
+import { CRDTChar } from '../types';
+import { LSEQ, TIE, compareCharIds } from './crdt';
+
+// Delivers every char of `from` to `to` as remote inserts
+const syncInserts = (from: LSEQ, to: LSEQ) => from.state.forEach(char => to.remoteInsert(char));
+
+const typeText = (doc: LSEQ, index: number, text: string) =>
+  [...text].map((value, i) => doc.localInsert(index + i, value));
+
+describe('LSEQ ordering', () => {
+  it('orders positions by digits, shorter prefix first, then siteId', () => {
+    expect(compareCharIds({ position: [3], siteId: 'b' }, { position: [4], siteId: 'a' })).toBeLessThan(0);
+    expect(compareCharIds({ position: [3], siteId: 'b' }, { position: [3, 1], siteId: 'a' })).toBeLessThan(0);
+    expect(compareCharIds({ position: [3], siteId: 'a' }, { position: [3], siteId: 'b' })).toBeLessThan(0);
+    expect(compareCharIds({ position: [3], siteId: 'a' }, { position: [3], siteId: 'a' })).toBe(0);
+  });
+
+  it('sorts a tied id right after the char it is tied to', () => {
+    const tied = { position: [3, TIE, 7], siteId: 'z', ties: ['a'] };
+    expect(compareCharIds({ position: [3], siteId: 'a' }, tied)).toBeLessThan(0);
+    expect(compareCharIds(tied, { position: [3], siteId: 'b' })).toBeLessThan(0);
+    expect(compareCharIds(tied, { position: [3, 0], siteId: 'a' })).toBeLessThan(0);
+    expect(compareCharIds(tied, { position: [3, TIE, 1], siteId: 'z', ties: ['b'] })).toBeLessThan(0);
+  });
+
+  it('inserts between two chars that share a position', () => {
+    for (let run = 0; run < 20; run++) {
+      const doc = new LSEQ('c');
+      doc.remoteInsert({ value: 'a', position: [5], siteId: 'A' });
+      doc.remoteInsert({ value: 'b', position: [5], siteId: 'B' });
+      doc.localInsert(1, 'X');
+      expect(doc.text).toBe('aXb');
+
+      // Around the tied char as well
+      doc.localInsert(1, 'Y');
+      doc.localInsert(3, 'Z');
+      doc.localBatchInsert(4, [{ value: '1' }, { value: '2' }]);
+      expect(doc.text).toBe('aYXZ12b');
+
+      const replica = new LSEQ('d');
+      [...doc.state].reverse().forEach(char => replica.remoteInsert(char));
+      expect(replica.text).toBe(doc.text);
+    }
+  });
+
+  it('finds tied chars from ops that name them without their ties', () => {
+    const doc = new LSEQ('c');
+    doc.remoteInsert({ value: 'a', position: [5], siteId: 'A' });
+    doc.remoteInsert({ value: 'b', position: [5], siteId: 'B' });
+    doc.localBatchInsert(1, [...'tied'].map(value => ({ value })));
+    const replica = new LSEQ('d');
+    syncInserts(doc, replica);
+
+    doc.state.forEach(char => {
+      expect(replica.findChar(char.position, char.siteId)).toEqual(char);
+      replica.remoteFormat(char.position, char.siteId, { bold: true }, { clock: 1, siteId: 'c' });
+    });
+    expect(replica.state.every(char => char.attributes?.bold)).toBe(true);
+    doc.state.forEach(char => expect(replica.remoteDelete(char.position, char.siteId)).not.toBe(-1));
+    expect(replica.text).toBe('');
+  });
+
+  it('keeps typed text in order whether appending, prepending or inserting in the middle', () => {
+    const doc = new LSEQ('a');
+    typeText(doc, 0, 'world');
+    typeText(doc, 0, 'hello ');
+    typeText(doc, 5, ',');
+    expect(doc.text).toBe('hello, world');
+
+    const positions = doc.state;
+    for (let i = 1; i < positions.length; i++) {
+      expect(compareCharIds(positions[i - 1], positions[i])).toBeLessThan(0);
+    }
+  });
+
+  it('allocates batch inserts between the same neighbours', () => {
+    const doc = new LSEQ('a');
+    typeText(doc, 0, 'ad');
+    doc.localBatchInsert(1, [{ value: 'b' }, { value: 'c', attributes: { bold: true } }]);
+    expect(doc.text).toBe('abcd');
+    expect(doc.state[2].attributes).toEqual({ bold: true });
+  });
+
+  it('keeps identifiers short when typing a long run', () => {
+    const doc = new LSEQ('a');
+    for (let i = 0; i < 2000; i++) doc.localInsert(i, 'x');
+    // Depth grows with the log of the length; the strategies are random, so
+    // leave room above the usual 9 to 16
+    const longest = Math.max(...doc.state.map(c => c.position.length));
+    expect(longest).toBeLessThan(32);
+  });
+
+  it('converges when two sites type at the same place', () => {
+    const a = new LSEQ('a');
+    const b = new LSEQ('b');
+    typeText(a, 0, 'ac');
+    syncInserts(a, b);
+
+    typeText(a, 1, 'XY');
+    typeText(b, 1, 'b');
+    syncInserts(a, b);
+    syncInserts(b, a);
+
+    expect(a.text).toBe(b.text);
+    expect(a.text).toHaveLength(5);
+    expect(a.text.startsWith('a')).toBe(true);
+    expect(a.text.endsWith('c')).toBe(true);
+  });
+
+  it('ignores a duplicate insert', () => {
+    const a = new LSEQ('a');
+    const char = a.localInsert(0, 'x');
+    a.remoteInsert({ ...char });
+    expect(a.text).toBe('x');
+  });
+});
+
+describe('LSEQ tombstones', () => {
+  it('does not let a late insert revive a deleted char', () => {
+    const a = new LSEQ('a');
+    const b = new LSEQ('b');
+    const [char] = typeText(a, 0, 'x');
+    const del = a.localDelete(0)!;
+
+    // b sees the delete before the insert
+    b.remoteDelete(del.position, del.siteId, del.deleterId, del.seq);
+    b.remoteInsert(char);
+    expect(b.text).toBe('');
+    expect(b.findChar(char.position, char.siteId)?.value).toBe('x');
+    expect(b.deletedBy(char.position, char.siteId)).toBe('a');
+  });
+
+  it('formats the deleted copy of a char without bringing it back', () => {
+    const a = new LSEQ('a');
+    const [char] = typeText(a, 0, 'x');
+    a.localDelete(0);
+    expect(a.remoteFormat(char.position, char.siteId, { bold: true }, { clock: 1, siteId: 'b' })).toEqual(['bold']);
+    expect(a.text).toBe('');
+    expect(a.findChar(char.position, char.siteId)?.attributes).toEqual({ bold: true });
+  });
+
+  it('never reuses its own deleted identifiers', () => {
+    const a = new LSEQ('a');
+    const deleted = new Set<string>();
+    for (let i = 0; i < 200; i++) {
+      const char = a.localInsert(0, 'x');
+      deleted.add(char.position.join(','));
+      a.localDelete(0);
+    }
+    expect(deleted.size).toBe(200);
+  });
+
+  it('collects a tombstone once every vector covers its delete', () => {
+    const a = new LSEQ('a');
+    typeText(a, 0, 'xy');
+    a.localDelete(0);
+    expect(a.tombstoneState).toHaveLength(1);
+    expect(a.deleteVector).toEqual({ a: 1 });
+
+    expect(a.collectGarbage([{ a: 1 }, {}])).toBe(0);
+    expect(a.tombstoneState).toHaveLength(1);
+    expect(a.collectGarbage([{ a: 1 }, { a: 1 }])).toBe(1);
+    expect(a.tombstoneState).toHaveLength(0);
+  });
+
+  it('stamps one delete sequence number per batch', () => {
+    const a = new LSEQ('a');
+    typeText(a, 0, 'abcd');
+    const deleted = a.localBatchDelete(1, 3);
+    expect(deleted.map(d => d.char.value)).toEqual(['b', 'c']);
+    expect(new Set(deleted.map(d => d.op.seq))).toEqual(new Set([1]));
+    expect(a.text).toBe('ad');
+  });
+
+  it('applies remote batch deletes, including ones for unseen chars', () => {
+    const a = new LSEQ('a');
+    const b = new LSEQ('b');
+    const chars = typeText(a, 0, 'abc');
+    const ops = a.localBatchDelete(0, 3).map(d => d.op);
+
+    b.remoteInsert(chars[0]);
+    expect(b.batchRemoteDelete(ops)).toBe(1);
+    syncInserts(a, b);
+    chars.forEach(char => b.remoteInsert(char));
+    expect(b.text).toBe('');
+    expect(b.tombstoneState).toHaveLength(3);
+  });
+});
+
+describe('LSEQ formatting', () => {
+  it('applies concurrent formats last-writer-wins per attribute', () => {
+    const a = new LSEQ('a');
+    const b = new LSEQ('b');
+    const [char] = typeText(a, 0, 'x');
+    b.remoteInsert(char);
+
+    const stampA = a.nextFormatStamp();
+    const stampB = b.nextFormatStamp();
+    a.localFormat(0, { color: 'red', bold: true }, stampA);
+    b.localFormat(0, { color: 'blue' }, stampB);
+
+    // Same clock: siteId 'b' wins the tie, whatever the arrival order
+    a.remoteFormat(char.position, char.siteId, { color: 'blue' }, stampB);
+    b.remoteFormat(char.position, char.siteId, { color: 'red', bold: true }, stampA);
+    expect(a.state[0].attributes).toEqual({ color: 'blue', bold: true });
+    expect(b.state[0].attributes).toEqual({ color: 'blue', bold: true });
+  });
+
+  it('clears an attribute with null and keeps the Lamport clock ahead', () => {
+    const a = new LSEQ('a');
+    const [char] = typeText(a, 0, 'x');
+    a.remoteFormat(char.position, char.siteId, { italic: true }, { clock: 7, siteId: 'b' });
+    expect(a.nextFormatStamp().clock).toBe(8);
+    a.localFormat(0, { italic: null });
+    expect(a.state[0].attributes).toEqual({});
+  });
+
+  it('applies a format that arrives before its insert', () => {
+    const a = new LSEQ('a');
+    const b = new LSEQ('b');
+    const [char] = typeText(a, 0, 'x');
+    b.remoteFormat(char.position, char.siteId, { underline: true }, { clock: 1, siteId: 'a' });
+    b.remoteInsert(char);
+    expect(b.state[0].attributes).toEqual({ underline: true });
+  });
+});
+
+describe('LSEQ version vectors', () => {
+  it('counts its own ops and records what it has seen', () => {
+    const a = new LSEQ('a');
+    expect(a.nextCounter()).toBe(1);
+    expect(a.nextCounter()).toBe(2);
+    a.observe('b', 3);
+    expect(a.versionVector).toEqual({ a: 2, b: 3 });
+    expect(a.hasSeen('b', 3)).toBe(true);
+    expect(a.hasSeen('b', 4)).toBe(false);
+    // Ops without a counter are always applied
+    expect(a.hasSeen('b')).toBe(false);
+  });
+
+  it('keeps its own counter when loading a snapshot', () => {
+    const a = new LSEQ('a');
+    a.nextCounter();
+    a.loadState([], [], {}, { b: 5 });
+    expect(a.versionVector).toEqual({ a: 1, b: 5 });
+  });
+});
+
+describe('LSEQ snapshots', () => {
+  it('loads state sorted and without tombstoned chars', () => {
+    const a = new LSEQ('a');
+    const chars = typeText(a, 0, 'abc');
+    const b = new LSEQ('b');
+    const tombstone = { position: chars[1].position, siteId: 'a', deletedBy: 'a', seq: 1 };
+    b.loadState([...chars].reverse(), [tombstone], { a: 1 });
+    expect(b.text).toBe('ac');
+    expect(b.deleteVector).toEqual({ a: 1 });
+  });
+
+  it('keeps the relay vector when adopting its snapshot, so the next sync can be a delta', () => {
+    const a = new LSEQ('a');
+    typeText(a, 0, 'hi');
+    const relayVector = { a: 2 };
+
+    const fresh = new LSEQ('b');
+    fresh.observe('c', 4);
+    fresh.adoptSnapshot(a.state, [], {}, relayVector);
+    expect(fresh.text).toBe('hi');
+    expect(fresh.versionVector).toEqual({ a: 2, c: 4 });
+
+    // Typed before the snapshot arrived: merged, vector kept all the same
+    const typing = new LSEQ('b');
+    const pending = typing.localInsert(0, '!');
+    typing.nextCounter();
+    typing.adoptSnapshot(a.state, [], {}, relayVector, [pending]);
+    expect(typing.text).toHaveLength(3);
+    expect(typing.versionVector).toEqual({ a: 2, b: 1 });
+  });
+
+  it('drops cached chars whose deletion the relay has already collected', () => {
+    const a = new LSEQ('a');
+    const chars = typeText(a, 0, 'hi!');
+    const cached = new LSEQ('b');
+    cached.loadState(chars);
+    const pending = cached.localInsert(3, '?');
+
+    // The relay deleted the "i" and collected its tombstone while we were away
+    a.localDelete(1);
+    a.collectGarbage([a.deleteVector]);
+    expect(a.tombstoneState).toEqual([]);
+
+    cached.adoptSnapshot(a.state, a.tombstoneState, {}, { a: 4 }, [pending]);
+    expect(cached.text).toBe('h!?');
+  });
+
+  it('merges relay state into a cached replica without undoing local deletes', () => {
+    const a = new LSEQ('a');
+    const chars = typeText(a, 0, 'abc');
+
+    const cached = new LSEQ('a');
+    cached.loadState(chars);
+    cached.localDelete(1);
+
+    const relay: CRDTChar[] = [...a.state, { value: 'd', position: [999], siteId: 'b' }];
+    cached.mergeState(relay);
+    expect(cached.text).toBe('acd');
+  });
+});
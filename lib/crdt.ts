@@ -1,9 +1,122 @@
+import {
+  CharId,
+  CRDTChar,
+  FractionalIndex,
+  CRDTAttributes,
+  DeleteOp,
+  Tombstone,
+  DeleteVector,
+  VersionVector,
+  AttributePatch,
+  AttributeStamp
+} from '../types';
 
-import { CRDTChar, FractionalIndex, CRDTAttributes } from '../types';
+export const idKey = (position: FractionalIndex, siteId: string) => `${siteId}:${position.join(',')}`;
+
+// Digit of a char squeezed between two chars that share a position. It sorts
+// below every digit and right after the char whose siteId is the matching
+// entry of `ties` (the first TIE of a position goes with ties[0], and so on).
+export const TIE = -1;
+
+const tieAt = (id: CharId, index: number) => id.ties?.[index] ?? '';
+
+// Document order of two chars: by position, siteId breaking ties
+export const compareCharIds = (a: CharId, b: CharId): number => {
+  const minLen = Math.min(a.position.length, b.position.length);
+  let tie = 0;
+  for (let i = 0; i < minLen; i++) {
+    if (a.position[i] !== b.position[i]) return a.position[i] - b.position[i];
+    if (a.position[i] === TIE) {
+      const cmp = tieAt(a, tie).localeCompare(tieAt(b, tie));
+      if (cmp !== 0) return cmp;
+      tie++;
+    }
+  }
+  if (a.position.length === b.position.length) return a.siteId.localeCompare(b.siteId);
+
+  // One is a prefix of the other: the shorter comes first, unless the longer
+  // continues with a tie to a site that sorts before the shorter one's
+  const sign = a.position.length < b.position.length ? 1 : -1;
+  const [shorter, longer] = sign === 1 ? [a, b] : [b, a];
+  if (longer.position[minLen] === TIE && shorter.siteId.localeCompare(tieAt(longer, tie)) > 0) return sign;
+  return -sign;
+};
+
+const copyChar = (c: CRDTChar): CRDTChar => ({
+  ...c,
+  position: [...c.position],
+  ties: c.ties ? [...c.ties] : undefined,
+  attributes: c.attributes ? { ...c.attributes } : undefined,
+  attributeStamps: c.attributeStamps ? { ...c.attributeStamps } : undefined
+});
+
+// Attributes set at insert time lose against any format
+const ZERO_STAMP: AttributeStamp = { clock: 0, siteId: '' };
+
+export const compareStamps = (a: AttributeStamp, b: AttributeStamp) =>
+  a.clock !== b.clock ? a.clock - b.clock : a.siteId.localeCompare(b.siteId);
+
+// Per-attribute last-writer-wins: each key of the patch only lands if its
+// stamp beats the one already stored for that key. Returns the keys applied.
+function applyAttributes(char: CRDTChar, patch: AttributePatch, stamp: AttributeStamp): (keyof CRDTAttributes)[] {
+  const applied: (keyof CRDTAttributes)[] = [];
+  const attributes: Record<string, unknown> = { ...(char.attributes || {}) };
+  const stamps = { ...(char.attributeStamps || {}) };
+
+  (Object.keys(patch) as (keyof CRDTAttributes)[]).forEach(key => {
+    if (compareStamps(stamp, stamps[key] ?? ZERO_STAMP) <= 0) return;
+    const value = patch[key];
+    if (value === null || value === undefined) delete attributes[key];
+    else attributes[key] = value;
+    stamps[key] = stamp;
+    applied.push(key);
+  });
+
+  if (applied.length > 0) {
+    char.attributes = attributes as CRDTAttributes;
+    char.attributeStamps = stamps;
+  }
+  return applied;
+}
+
+// Folds another replica's copy of a char into ours, key by key
+function mergeAttributes(char: CRDTChar, incoming: CRDTChar) {
+  const keys = new Set([
+    ...Object.keys(incoming.attributes || {}),
+    ...Object.keys(incoming.attributeStamps || {})
+  ]) as Set<keyof CRDTAttributes>;
+  keys.forEach(key => {
+    const stamp = incoming.attributeStamps?.[key];
+    if (!stamp) return;
+    applyAttributes(char, { [key]: incoming.attributes?.[key] ?? null }, stamp);
+  });
+}
 
 export class LSEQ {
+  // Depth-0 base is 2^INITIAL_BASE_BITS; BOUNDARY caps how far from the
+  // neighbouring identifier a new digit may land
+  static readonly INITIAL_BASE_BITS = 5;
+  static readonly BOUNDARY = 10;
+
   private chars: CRDTChar[] = [];
   private siteId: string;
+  // Allocation strategy per depth, chosen lazily
+  private strategies: ('boundary+' | 'boundary-')[] = [];
+
+  // Deleted identifiers, keyed by idKey. Kept until garbage collected.
+  private tombstones = new Map<string, Tombstone>();
+  // Formats that arrived before the insert of the char they target
+  private pendingFormats = new Map<string, { patch: AttributePatch; stamp: AttributeStamp }[]>();
+  // Ties of the tied chars we hold, keyed by idKey. Ops name chars without
+  // their ties, but indexOf needs them to search in document order.
+  private ties = new Map<string, string[]>();
+  private deleteSeq = 0;
+  // Lamport clock stamping local formats
+  private clock = 0;
+  // Counter of ops we have sent, and the highest counter applied per site
+  private opCounter = 0;
+  private vector: VersionVector = {};
+  private seenDeletes: DeleteVector = {};
 
   constructor(siteId: string) {
     this.siteId = siteId;
@@ -16,115 +129,348 @@ export class LSEQ {
 
   get state(): CRDTChar[] {
     // Return a deep copy of the state to prevent cross-site mutation during sync
-    return this.chars.map(c => ({
-      ...c,
-      position: [...c.position],
-      attributes: c.attributes ? { ...c.attributes } : undefined
-    }));
+    return this.chars.map(copyChar);
   }
 
   get rawChars(): CRDTChar[] {
     return this.chars;
   }
 
-  loadState(newState: CRDTChar[]) {
+  get tombstoneState(): Tombstone[] {
+    return Array.from(this.tombstones.values()).map(t => ({
+      ...t,
+      position: [...t.position],
+      char: t.char ? copyChar(t.char) : undefined
+    }));
+  }
+
+  get deleteVector(): DeleteVector {
+    return { ...this.seenDeletes };
+  }
+
+  get versionVector(): VersionVector {
+    return { ...this.vector };
+  }
+
+  // Stamps the next outgoing op with our (siteId, counter) dot
+  nextCounter(): number {
+    this.opCounter++;
+    this.vector[this.siteId] = this.opCounter;
+    return this.opCounter;
+  }
+
+  // Ops without a counter predate version vectors and are always applied
+  hasSeen(siteId: string, counter?: number): boolean {
+    return typeof counter === 'number' && counter <= (this.vector[siteId] ?? 0);
+  }
+
+  observe(siteId: string, counter?: number) {
+    if (typeof counter === 'number') this.mergeVector({ [siteId]: counter });
+  }
+
+  mergeVector(vector: VersionVector = {}) {
+    for (const site in vector) {
+      if ((this.vector[site] ?? 0) < vector[site]) this.vector[site] = vector[site];
+    }
+  }
+
+  // Looks a char up by identity, including deleted ones
+  findChar(position: FractionalIndex, siteId: string): CRDTChar | undefined {
+    const idx = this.indexOf(position, siteId);
+    return idx !== -1 ? this.chars[idx] : this.tombstones.get(idKey(position, siteId))?.char;
+  }
+
+  // Site that deleted a char, while its tombstone is still around
+  deletedBy(position: FractionalIndex, siteId: string): string | undefined {
+    return this.tombstones.get(idKey(position, siteId))?.deletedBy || undefined;
+  }
+
+  loadState(newState: CRDTChar[], tombstones: Tombstone[] = [], seenDeletes: DeleteVector = {}, vector: VersionVector = {}) {
+    this.tombstones.clear();
+    this.pendingFormats.clear();
+    this.ties.clear();
+    this.seenDeletes = {};
+    this.vector = this.opCounter > 0 ? { [this.siteId]: this.opCounter } : {};
+    this.mergeVector(vector);
+    tombstones.forEach(t => this.recordTombstone(t));
+    this.mergeDeleteVector(seenDeletes);
+
     // Ensure we are working with a fresh copy
-    this.chars = newState ? newState.map(c => ({
-      ...c,
-      position: [...c.position],
-      attributes: c.attributes ? { ...c.attributes } : undefined
-    })) : [];
+    this.chars = newState
+      ? newState.filter(c => !this.tombstones.has(idKey(c.position, c.siteId))).map(copyChar)
+      : [];
     // Sort to ensure binary search validity even if remote state was unsorted
     this.chars.sort((a, b) => this.comparePositions(a, b));
+    this.chars.forEach(c => {
+      this.observeStamps(c);
+      this.rememberTies(c);
+    });
   }
 
-  private generateIdentifierBetween(pos1: FractionalIndex, pos2: FractionalIndex): FractionalIndex {
+  // Merges state received from the relay into what we already have.
+  // Tombstones are applied first so nothing we (or they) deleted comes back.
+  mergeState(state: CRDTChar[], tombstones: Tombstone[] = [], seenDeletes: DeleteVector = {}, vector: VersionVector = {}) {
+    tombstones.forEach(t => this.remoteDelete(t.position, t.siteId, t.deletedBy, t.seq, t.char));
+    this.mergeDeleteVector(seenDeletes);
+    this.mergeVector(vector);
+    state.forEach(char => {
+      const existing = this.findChar(char.position, char.siteId);
+      if (existing) {
+        mergeAttributes(existing, char);
+      } else {
+        this.remoteInsert(copyChar(char));
+      }
+      this.observeStamps(char);
+    });
+  }
+
+  // Takes in the relay's copy of the room (a sync-response): an empty replica
+  // is replaced by it, one we already typed into merges it. Either way the
+  // relay's vector is kept, so the next request-sync can be answered with a
+  // delta. The relay's copy is authoritative: a char it does not have was
+  // deleted and its tombstone collected, so it goes here too unless it is
+  // one of `pending`, our own inserts the relay has not applied yet.
+  adoptSnapshot(state: CRDTChar[], tombstones: Tombstone[] = [], seenDeletes: DeleteVector = {}, vector: VersionVector = {}, pending: CharId[] = []) {
+    if (this.chars.length === 0) {
+      const known = this.versionVector;
+      this.loadState(state, tombstones, seenDeletes, vector);
+      this.mergeVector(known);
+      return;
+    }
+    this.mergeState(state, tombstones, seenDeletes, vector);
+    const kept = new Set([...state, ...pending].map(c => idKey(c.position, c.siteId)));
+    this.chars = this.chars.filter(c => kept.has(idKey(c.position, c.siteId)));
+  }
+
+  // LSEQ allocation (Nédelec et al., "LSEQ: an Adaptive Structure for
+  // Sequences in Distributed Collaborative Editing"). The base doubles with
+  // each depth, and every depth uses either boundary+ (allocate just after
+  // pos1, good for appending) or boundary- (just before pos2, good for
+  // prepending), picked at random the first time the depth is used. Within
+  // the boundary the digit is random, which keeps concurrent allocations
+  // from different sites apart. `next === null` means the end of the document.
+  // When prev and next share a position there is no digit between them, so
+  // the new id ties itself to prev (see TIE) and picks its digit below that.
+  private generateIdentifierBetween(prev: CharId | null, next: CharId | null): Pick<CharId, 'position' | 'ties'> {
+    const pos1 = prev?.position ?? [];
+    const pos2 = next?.position ?? null;
     const newPos: FractionalIndex = [];
-    let i = 0;
-    const BASE = 1024;
-
-    while (true) {
-      const v1 = pos1[i] ?? 0;
-      const v2 = pos2[i] ?? BASE;
-      const diff = v2 - v1;
-
-      if (diff > 1) {
-        // Choose deterministic midpoint to preserve insertion order
-        const midpoint = v1 + Math.ceil(diff / 2);
-        newPos.push(midpoint);
-        return newPos;
+    const ties: string[] = [];
+    // While true, pos2 still bounds the digits we pick
+    let boundedByPos2 = pos2 !== null;
+    // Ties of pos2 we have gone past while bounded by it
+    let ties2 = 0;
+    const result = () => (ties.length > 0 ? { position: newPos, ties } : { position: newPos });
+    // Copies a tie; pos2 keeps bounding us only if it has the very same one
+    const pushTie = (depth: number, site: string) => {
+      newPos.push(TIE);
+      ties.push(site);
+      boundedByPos2 = boundedByPos2 && pos2![depth] === TIE && tieAt(next!, ties2++) === site;
+    };
+
+    for (let depth = 0; ; depth++) {
+      if (pos1[depth] === TIE) {
+        pushTie(depth, tieAt(prev!, ties.length));
+        continue;
+      }
+      if (prev && boundedByPos2 && depth === pos1.length && (pos2![depth] === undefined || pos2![depth] === TIE)) {
+        pushTie(depth, prev.siteId);
+        continue;
       }
 
-      // No space at this level. Copy the prefix and continue deeper.
-      newPos.push(v1);
-      i++;
+      const base = LSEQ.baseAt(depth);
+      const low = pos1[depth] ?? 0;
+      const high = boundedByPos2 ? (pos2![depth] ?? base) : base;
+      const interval = high - low - 1;
 
-      // As a safety valve, if we go too deep create fresh space.
-      if (i > 128) {
-        newPos.push(v1 + 1);
-        return newPos;
+      if (interval >= 1) {
+        const step = Math.min(LSEQ.BOUNDARY, interval);
+        const offset = 1 + Math.floor(Math.random() * step);
+        newPos.push(this.strategyAt(depth) === 'boundary+' ? low + offset : high - offset);
+        return result();
       }
+
+      // No space at this depth. Copy pos1's digit and go one level deeper;
+      // once our prefix is below pos2's, pos2 no longer constrains us.
+      newPos.push(low);
+      if (low !== high) boundedByPos2 = false;
+    }
+  }
+
+  // 32 at depth 0, 64 at depth 1, ...
+  private static baseAt(depth: number): number {
+    return 2 ** (LSEQ.INITIAL_BASE_BITS + depth);
+  }
+
+  private strategyAt(depth: number): 'boundary+' | 'boundary-' {
+    if (!this.strategies[depth]) {
+      this.strategies[depth] = Math.random() < 0.5 ? 'boundary+' : 'boundary-';
     }
+    return this.strategies[depth];
+  }
+
+  private nextDeleteOp(char: CRDTChar): DeleteOp {
+    return { position: char.position, siteId: char.siteId, deleterId: this.siteId, seq: this.deleteSeq };
   }
 
   // Efficient local bulk delete
-  localBatchDelete(startIndex: number, endIndex: number): { char: CRDTChar, op: { position: FractionalIndex; siteId: string } }[] {
-    const results: { char: CRDTChar, op: { position: FractionalIndex; siteId: string } }[] = [];
-    
+  localBatchDelete(startIndex: number, endIndex: number): { char: CRDTChar, op: DeleteOp }[] {
+    const results: { char: CRDTChar, op: DeleteOp }[] = [];
+
     // Validate bounds
     if (startIndex < 0 || endIndex > this.chars.length || startIndex >= endIndex) {
         return [];
     }
-    
+
+    // One sequence number per batch: peers see the whole batch or none of it
+    this.deleteSeq++;
+
     // Get the chars to be deleted (copy them)
     // We iterate start to end because the chars are contiguous in the array
     for (let i = startIndex; i < endIndex; i++) {
         const char = this.chars[i];
-        results.push({ 
-            char: char, 
-            op: { position: char.position, siteId: char.siteId } 
-        });
+        const op = this.nextDeleteOp(char);
+        this.recordTombstone({ position: char.position, siteId: char.siteId, deletedBy: this.siteId, seq: op.seq!, char });
+        results.push({ char, op });
     }
-    
+
     // Perform single splice
     this.chars.splice(startIndex, endIndex - startIndex);
-    
+
     return results;
   }
 
+  // Fresh identifier between two chars that is not one of our tombstones
+  private allocate(prev: CharId | null, next: CharId | null): Pick<CharId, 'position' | 'ties'> {
+    let id = this.generateIdentifierBetween(prev, next);
+    // Never reuse one of our own deleted identifiers: the tombstone would
+    // swallow the insert. Ops name chars without their ties, so a tied
+    // position must not be ours already under other ties either.
+    while (
+      this.tombstones.has(idKey(id.position, this.siteId)) ||
+      (id.ties && this.indexOf(id.position, this.siteId) !== -1)
+    ) {
+      id = this.generateIdentifierBetween({ ...id, siteId: this.siteId }, next);
+    }
+    return id;
+  }
+
   localInsert(index: number, value: string, attributes?: CRDTAttributes): CRDTChar {
-    const prev = this.chars[index - 1]?.position ?? [0];
-    const next = this.chars[index]?.position ?? [100];
-    
+    const prev = this.chars[index - 1] ?? null;
+    const next = this.chars[index] ?? null;
+
     const char: CRDTChar = {
       value,
-      position: this.generateIdentifierBetween(prev, next),
+      ...this.allocate(prev, next),
       siteId: this.siteId,
-      attributes: attributes ? { ...attributes } : undefined
+      attributes: attributes ? { ...attributes } : undefined,
+      createdAt: Date.now()
     };
 
     this.remoteInsert(char);
     return char;
   }
 
-  localDelete(index: number): { position: FractionalIndex; siteId: string } | null {
+  // Inserts a run of characters at `index` in one pass. Identifiers are
+  // allocated left to right between the same two neighbours, and the array
+  // is rebuilt once instead of splicing per character.
+  localBatchInsert(index: number, items: { value: string; attributes?: CRDTAttributes }[]): CRDTChar[] {
+    const at = Math.max(0, Math.min(index, this.chars.length));
+    const next = this.chars[at] ?? null;
+    let prev: CharId | null = this.chars[at - 1] ?? null;
+
+    const createdAt = Date.now();
+    const inserted = items.map(item => {
+      const id = this.allocate(prev, next);
+      prev = { ...id, siteId: this.siteId };
+      return {
+        value: item.value,
+        ...id,
+        siteId: this.siteId,
+        attributes: item.attributes ? { ...item.attributes } : undefined,
+        createdAt
+      };
+    });
+
+    inserted.forEach(char => this.rememberTies(char));
+    // Avoid splice(...inserted): spreading very large arrays overflows the stack
+    this.chars = this.chars.slice(0, at).concat(inserted, this.chars.slice(at));
+    return inserted;
+  }
+
+  localDelete(index: number): DeleteOp | null {
     const char = this.chars[index];
     if (!char) return null;
-    
-    const op = { position: char.position, siteId: char.siteId };
-    this.remoteDelete(char.position, char.siteId);
+
+    this.deleteSeq++;
+    const op = this.nextDeleteOp(char);
+    this.remoteDelete(char.position, char.siteId, this.siteId, this.deleteSeq);
     return op;
   }
 
-  localFormat(index: number, attributes: Partial<CRDTAttributes>): { position: FractionalIndex; charSiteId: string } | null {
+  // Deletes specific characters by identity (used by undo/redo).
+  // Characters that are already gone are skipped.
+  localDeleteChars(chars: CRDTChar[]): DeleteOp[] {
+    const live = chars.filter(c => this.indexOf(c.position, c.siteId) !== -1);
+    if (live.length === 0) return [];
+
+    this.deleteSeq++;
+    return live.map(char => {
+      const op = this.nextDeleteOp(char);
+      this.remoteDelete(char.position, char.siteId, this.siteId, this.deleteSeq);
+      return op;
+    });
+  }
+
+  // Brings deleted characters back under fresh identifiers. The old
+  // identifiers stay tombstoned, so a delete issued by another peer is never
+  // undone by re-inserting the exact same CRDTChar. Each char lands where
+  // its tombstone sits relative to the visible text.
+  // The result is aligned with `chars`.
+  localReinsert(chars: CRDTChar[]): CRDTChar[] {
+    const fresh: CRDTChar[] = new Array(chars.length);
+    const order = chars
+      .map((_, i) => i)
+      .filter(i => {
+        // Still visible (nothing to bring back)
+        const existing = this.indexOf(chars[i].position, chars[i].siteId);
+        if (existing !== -1) fresh[i] = this.chars[existing];
+        return existing === -1;
+      })
+      .sort((a, b) => this.comparePositions(chars[a], chars[b]));
+    const targets = order.map(i => this.insertionIndex(chars[i]));
+
+    // Earlier chars of the batch always land before later targets, so
+    // offsetting by the number already inserted keeps their relative order
+    order.forEach((i, k) => {
+      fresh[i] = this.localInsert(targets[k] + k, chars[i].value, chars[i].attributes);
+    });
+    return fresh;
+  }
+
+  // Stamp for a new local format; one stamp can cover a whole selection
+  nextFormatStamp(): AttributeStamp {
+    this.clock++;
+    return { clock: this.clock, siteId: this.siteId };
+  }
+
+  localFormat(index: number, attributes: AttributePatch, stamp = this.nextFormatStamp()): { position: FractionalIndex; charSiteId: string; clock: number } | null {
     const char = this.chars[index];
     if (!char) return null;
-    
-    char.attributes = { ...(char.attributes || {}), ...attributes };
-    return { position: char.position, charSiteId: char.siteId };
+
+    applyAttributes(char, attributes, stamp);
+    return { position: char.position, charSiteId: char.siteId, clock: stamp.clock };
   }
 
   remoteInsert(char: CRDTChar) {
+    const key = idKey(char.position, char.siteId);
+    const tombstone = this.tombstones.get(key);
+    if (tombstone) {
+      // Deleted already (possibly before we ever saw the insert): stay deleted
+      if (!tombstone.char) tombstone.char = char;
+      return;
+    }
+
     let low = 0;
     let high = this.chars.length;
 
@@ -135,122 +481,169 @@ export class LSEQ {
       else if (cmp > 0) high = mid;
       else return; // Duplicate found, ignore
     }
-    
+
+    const pending = this.pendingFormats.get(key);
+    if (pending) {
+      pending.forEach(({ patch, stamp }) => applyAttributes(char, patch, stamp));
+      this.pendingFormats.delete(key);
+    }
+    this.observeStamps(char);
+    this.rememberTies(char);
+
     this.chars.splice(low, 0, char);
     return low;
   }
 
   // Optimized for bulk deletions
-  batchRemoteDelete(ops: { position: FractionalIndex; siteId: string }[]): number {
+  batchRemoteDelete(ops: DeleteOp[]): number {
     if (ops.length === 0) return 0;
-    
-    // Convert deletions to a Set of unique keys for O(1) checking
-    const deletionSet = new Set<string>();
+
+    // Convert deletions to a map of unique keys for O(1) checking
+    const deletions = new Map<string, DeleteOp>();
     for (let i = 0; i < ops.length; i++) {
-    // Simple string key format: "siteId:pos"
-    // Using string interpolation on arrays calls .toString() which joins with commas
-    // We must ensure consistent formatting. 
-    // JSON.stringify is safer for array comparison than .toString() to avoid ambiguity or potential inconsistencies across environments if Prototype is messed with,
-    // though .toString() is usually fine for number arrays.
-    // Let's stick to a manual join to be 100% sure of the format.
-    deletionSet.add(`${ops[i].siteId}:${ops[i].position.join(',')}`);
+      deletions.set(idKey(ops[i].position, ops[i].siteId), ops[i]);
     }
-    
+
     // Filter out deleted chars in one pass - O(N)
     let writeIdx = 0;
     let deletedCount = 0;
     for (let i = 0; i < this.chars.length; i++) {
         const char = this.chars[i];
-        // Must match the key generation exactly
-        if (!deletionSet.has(`${char.siteId}:${char.position.join(',')}`)) {
+        const key = idKey(char.position, char.siteId);
+        const op = deletions.get(key);
+        if (!op) {
             if (writeIdx !== i) {
                 this.chars[writeIdx] = char;
             }
             writeIdx++;
         } else {
+            this.recordTombstone({ position: char.position, siteId: char.siteId, deletedBy: op.deleterId ?? '', seq: op.seq ?? 0, char });
+            deletions.delete(key);
             deletedCount++;
         }
     }
-    
+
     // Truncate the array
     if (writeIdx < this.chars.length) {
         this.chars.length = writeIdx;
     }
+
+    // Whatever is left targets chars we have not received yet
+    deletions.forEach(op => {
+      this.recordTombstone({ position: op.position, siteId: op.siteId, deletedBy: op.deleterId ?? '', seq: op.seq ?? 0 });
+    });
     return deletedCount;
   }
 
-  remoteDelete(position: FractionalIndex, siteId: string): number {
-    // Binary search for the character - O(log N)
+  remoteDelete(position: FractionalIndex, siteId: string, deletedBy = '', seq = 0, knownChar?: CRDTChar): number {
+    const idx = this.indexOf(position, siteId);
+    const char = idx !== -1 ? this.chars[idx] : knownChar;
+    this.recordTombstone({ position, siteId, deletedBy, seq, char });
+    if (idx !== -1) {
+      // splice is O(N)
+      this.chars.splice(idx, 1);
+    }
+    return idx;
+  }
+
+  // Returns the attribute keys that won their last-writer-wins comparison
+  remoteFormat(position: FractionalIndex, charSiteId: string, attributes: AttributePatch, stamp: AttributeStamp = ZERO_STAMP): (keyof CRDTAttributes)[] {
+    if (stamp.clock > this.clock) this.clock = stamp.clock;
+    const key = idKey(position, charSiteId);
+    const char = this.findChar(position, charSiteId);
+    if (char) {
+      return applyAttributes(char, attributes, stamp);
+    }
+    if (!this.tombstones.has(key)) {
+      // Insert not seen yet; apply once it arrives
+      const pending = this.pendingFormats.get(key) || [];
+      pending.push({ patch: { ...attributes }, stamp });
+      this.pendingFormats.set(key, pending);
+    }
+    return [];
+  }
+
+  // Drops tombstones every known site has seen. `vectors` holds the delete
+  // vectors acknowledged by the other sites; our own is always included.
+  collectGarbage(vectors: DeleteVector[]): number {
+    const all = [this.seenDeletes, ...vectors];
+    let collected = 0;
+    this.tombstones.forEach((t, key) => {
+      if (all.every(v => (v[t.deletedBy] ?? 0) >= t.seq)) {
+        this.tombstones.delete(key);
+        this.pendingFormats.delete(key);
+        this.ties.delete(key);
+        collected++;
+      }
+    });
+    return collected;
+  }
+
+  private recordTombstone(tombstone: Tombstone) {
+    const key = idKey(tombstone.position, tombstone.siteId);
+    const existing = this.tombstones.get(key);
+    if (existing) {
+      // Concurrent deletes of the same char: keep the first, remember its content
+      if (!existing.char && tombstone.char) existing.char = tombstone.char;
+    } else {
+      this.tombstones.set(key, tombstone);
+    }
+    this.mergeDeleteVector({ [tombstone.deletedBy]: tombstone.seq });
+  }
+
+  // Keep the Lamport clock ahead of every stamp we have seen
+  private observeStamps(char: CRDTChar) {
+    const stamps = char.attributeStamps;
+    if (!stamps) return;
+    for (const key in stamps) {
+      const stamp = stamps[key as keyof CRDTAttributes];
+      if (stamp && stamp.clock > this.clock) this.clock = stamp.clock;
+    }
+  }
+
+  private mergeDeleteVector(vector: DeleteVector) {
+    for (const site in vector) {
+      if ((this.seenDeletes[site] ?? 0) < vector[site]) this.seenDeletes[site] = vector[site];
+    }
+  }
+
+  private rememberTies(char: CRDTChar) {
+    if (char.ties) this.ties.set(idKey(char.position, char.siteId), char.ties);
+  }
+
+  // Binary search in document order - O(log N)
+  private indexOf(position: FractionalIndex, siteId: string): number {
+    const id: CharId = { position, siteId, ties: this.ties.get(idKey(position, siteId)) };
     let low = 0;
     let high = this.chars.length - 1;
 
     while (low <= high) {
       const mid = (low + high) >>> 1;
-      const midChar = this.chars[mid];
-      
-      const posCmp = this.compareArrays(midChar.position, position);
-      let cmp = 0;
-      if (posCmp !== 0) {
-          cmp = posCmp;
-      } else {
-          cmp = midChar.siteId.localeCompare(siteId);
-      }
-
+      const cmp = compareCharIds(this.chars[mid], id);
       if (cmp < 0) {
-          low = mid + 1;
+        low = mid + 1;
       } else if (cmp > 0) {
-          high = mid - 1;
+        high = mid - 1;
       } else {
-        // Found match - splice is O(N)
-        this.chars.splice(mid, 1);
         return mid;
       }
     }
-    
-    // Fallback: Linear search if binary search fails (e.g. slight sort inconsistency)
-    // This ensures consistency at the cost of performance in rare error cases
-    const idx = this.chars.findIndex(c => 
-        this.compareArrays(c.position, position) === 0 && c.siteId === siteId
-    );
-    if (idx !== -1) {
-        this.chars.splice(idx, 1);
-        return idx;
-    }
     return -1;
   }
 
-  remoteFormat(position: FractionalIndex, charSiteId: string, attributes: Partial<CRDTAttributes>) {
-    const char = this.chars.find(c => 
-      this.compareArrays(c.position, position) === 0 && c.siteId === charSiteId
-    );
-    if (char) {
-      char.attributes = { ...(char.attributes || {}), ...attributes };
+  // Index at which `char` sits (or would sit) among the visible chars
+  private insertionIndex(char: CRDTChar): number {
+    let low = 0;
+    let high = this.chars.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.comparePositions(this.chars[mid], char) < 0) low = mid + 1;
+      else high = mid;
     }
+    return low;
   }
 
   private comparePositions(a: CRDTChar, b: CRDTChar): number {
-    const cmp = this.compareArrays(a.position, b.position);
-    if (cmp !== 0) return cmp;
-    return a.siteId.localeCompare(b.siteId);
-  }
-
-  private compareArrays(a: number[], b: number[]): number {
-    if (!Array.isArray(a) || !Array.isArray(b)) return 0;
-    const len1 = a.length;
-    const len2 = b.length;
-    const minLen = Math.min(len1, len2);
-    
-    for (let i = 0; i < minLen; i++) {
-        const val1 = a[i];
-        const val2 = b[i];
-        if (val1 < val2) return -1;
-        if (val1 > val2) return 1;
-    }
-    
-    // Standard lexicographical: shorter prefix comes first
-    if (len1 < len2) return -1;
-    if (len1 > len2) return 1;
-    
-    return 0;
+    return compareCharIds(a, b);
   }
 }
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { LSEQ } from './crdt';
+import { diffDocuments, summarizeDiff } from './diff';
+
+describe('diffDocuments', () => {
+  it('compares by identity and credits each change', () => {
+    const a = new LSEQ('a');
+    [...'cat'].forEach((value, i) => a.localInsert(i, value));
+    const before = a.state;
+
+    const b = new LSEQ('b');
+    b.loadState(before);
+    b.localDelete(0);
+    b.localInsert(0, 'c'); // retyped: a delete plus an insert
+    b.localFormat(2, { bold: true });
+
+    const diff = diffDocuments(before, b.state, char => (char.siteId === 'a' ? 'b' : null));
+    expect(diff.map(d => [d.char.value, d.kind, d.author])).toEqual(
+      expect.arrayContaining([
+        ['c', 'delete', 'b'],
+        ['c', 'insert', 'b'],
+        ['a', 'equal', null],
+        ['t', 'format', 'b']
+      ])
+    );
+    expect(diff).toHaveLength(4);
+    expect(diff.find(d => d.kind === 'format')).toMatchObject({ changed: ['bold'], before: {} });
+  });
+});
+
+describe('summarizeDiff', () => {
+  it('counts changes per author, most active first', () => {
+    const char = { value: 'x', position: [1], siteId: 'a' };
+    const summary = summarizeDiff([
+      { char, kind: 'insert', author: 'a' },
+      { char, kind: 'equal', author: null },
+      { char, kind: 'delete', author: 'b' },
+      { char, kind: 'format', author: 'b' },
+      { char, kind: 'delete', author: null }
+    ]);
+    expect(summary).toEqual([
+      { author: 'b', inserted: 0, deleted: 1, formatted: 1 },
+      { author: 'a', inserted: 1, deleted: 0, formatted: 0 },
+      { author: null, inserted: 0, deleted: 1, formatted: 0 }
+    ]);
+  });
+
+  it('counts the sites of one person together and unintroduced sites as unknown', () => {
+    const char = { value: 'x', position: [1], siteId: 'a' };
+    const authors = {
+      a1: { id: 'a1', userId: 'ann', name: 'Ann', color: '#000000' },
+      a2: { id: 'a2', userId: 'ann', name: 'Ann', color: '#000000' }
+    };
+    const summary = summarizeDiff([
+      { char, kind: 'insert', author: 'a1' },
+      { char, kind: 'insert', author: 'a2' },
+      { char, kind: 'delete', author: 'gone' }
+    ], authors);
+    expect(summary).toEqual([
+      { author: 'a1', inserted: 2, deleted: 0, formatted: 0 },
+      { author: null, inserted: 0, deleted: 1, formatted: 0 }
+    ]);
+  });
+});
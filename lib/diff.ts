@@ -0,0 +1,94 @@
+import { AttributeStamp, CRDTAttributes, CRDTChar, Collaborator } from '../types';
+import { compareCharIds, compareStamps } from './crdt';
+
+export type DiffKind = 'equal' | 'insert' | 'delete' | 'format';
+
+export interface DiffChar {
+  char: CRDTChar;
+  kind: DiffKind;
+  // Site credited with the change; null when nobody can tell (e.g. a delete
+  // whose tombstone has been collected, or a format made at insert time)
+  author: string | null;
+  // Format only: the keys that changed and what they were before
+  changed?: (keyof CRDTAttributes)[];
+  before?: CRDTAttributes;
+}
+
+export interface DiffSummary {
+  author: string | null;
+  inserted: number;
+  deleted: number;
+  formatted: number;
+}
+
+// Compares two states of a document by char identity rather than by text,
+// so a word deleted and retyped shows as a delete plus an insert, and a
+// restyled char as a format. Both states must be in document order, which
+// every CRDTChar[] from the LSEQ is. Deleted chars stay in the result at
+// their old place.
+export const diffDocuments = (
+  before: CRDTChar[],
+  after: CRDTChar[],
+  deletedBy: (char: CRDTChar) => string | null | undefined = () => null
+): DiffChar[] => {
+  const result: DiffChar[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    const cmp = i >= before.length ? 1 : j >= after.length ? -1 : compareCharIds(before[i], after[j]);
+    if (cmp < 0) {
+      result.push({ char: before[i], kind: 'delete', author: deletedBy(before[i]) ?? null });
+      i++;
+    } else if (cmp > 0) {
+      result.push({ char: after[j], kind: 'insert', author: after[j].siteId });
+      j++;
+    } else {
+      result.push(compareFormats(before[i], after[j]));
+      i++;
+      j++;
+    }
+  }
+  return result;
+};
+
+const compareFormats = (before: CRDTChar, after: CRDTChar): DiffChar => {
+  const from = before.attributes || {};
+  const to = after.attributes || {};
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)]) as Set<keyof CRDTAttributes>;
+  const changed = [...keys].filter(key => from[key] !== to[key]);
+  if (changed.length === 0) return { char: after, kind: 'equal', author: null };
+
+  // The latest stamp among the changed keys names who set them
+  let latest: AttributeStamp | undefined;
+  changed.forEach(key => {
+    const stamp = after.attributeStamps?.[key];
+    if (stamp && (!latest || compareStamps(stamp, latest) > 0)) latest = stamp;
+  });
+  return { char: after, kind: 'format', author: latest?.siteId ?? null, changed, before: from };
+};
+
+// Changes per author, most active first. Given the room's authors, all
+// sites of one person count together and sites nobody introduced count as
+// unknown (null).
+export const summarizeDiff = (diff: DiffChar[], authors?: Record<string, Collaborator>): DiffSummary[] => {
+  const personOf = (site: string | null) => {
+    if (!authors || site === null) return site;
+    const author = authors[site];
+    return author ? author.userId || author.id : null;
+  };
+  const byAuthor = new Map<string | null, DiffSummary>();
+  diff.forEach(({ kind, author }) => {
+    if (kind === 'equal') return;
+    const person = personOf(author);
+    let summary = byAuthor.get(person);
+    if (!summary) {
+      summary = { author: person === null ? null : author, inserted: 0, deleted: 0, formatted: 0 };
+      byAuthor.set(person, summary);
+    }
+    if (kind === 'insert') summary.inserted++;
+    else if (kind === 'delete') summary.deleted++;
+    else summary.formatted++;
+  });
+  const total = (s: DiffSummary) => s.inserted + s.deleted + s.formatted;
+  return [...byAuthor.values()].sort((a, b) => total(b) - total(a));
+};
@@ -0,0 +1,67 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { CRDTAttributes, CRDTChar, RichTextRun } from '../types';
+import { createDocx } from './docxExport';
+import { extractDocxRuns, htmlToRuns } from './docxImport';
+
+// The app bundles mammoth's browser build, the only one that reads an ArrayBuffer
+vi.mock('mammoth', () => import('mammoth/mammoth.browser.js'));
+
+const toChars = (parts: [string, CRDTAttributes?][]): CRDTChar[] =>
+  parts.flatMap(([text, attributes]) => [...text].map(value => ({ value, attributes }))).map((char, i) => ({
+    ...char,
+    position: [i + 1],
+    siteId: 'a'
+  }));
+
+const text = (runs: RichTextRun[]) => runs.map(run => run.text).join('');
+
+describe('htmlToRuns', () => {
+  it('puts block attributes on the newline ending each paragraph', () => {
+    const runs = htmlToRuns('<h1>Title</h1><p>Some <strong>bold</strong> text</p><ul><li>item</li></ul>');
+    expect(text(runs)).toBe('Title\nSome bold text\nitem\n');
+    expect(runs[1]).toEqual({ text: '\n', attributes: { block: 'h1' } });
+    expect(runs.find(run => run.text === 'bold')?.attributes).toEqual({ bold: true });
+    expect(runs[runs.length - 1]).toEqual({ text: '\n', attributes: { block: 'bullet' } });
+  });
+
+  it('reads alignment and indent markers', () => {
+    const runs = htmlToRuns('<p><span data-align="center" data-indent="2"></span>centred</p>');
+    expect(runs).toEqual([{ text: 'centred' }, { text: '\n', attributes: { align: 'center', indent: 2 } }]);
+  });
+
+  it('keeps table cells on one line, separated by tabs', () => {
+    expect(text(htmlToRuns('<table><tr><td>a</td><td>b</td></tr><tr><td>c</td><td>d</td></tr></table>'))).toBe('a\tb\nc\td');
+  });
+});
+
+describe('DOCX round trip', () => {
+  it('keeps text, inline formatting and block attributes', async () => {
+    const chars = toChars([
+      ['Heading'],
+      ['\n', { block: 'h2' }],
+      ['plain '],
+      ['bold', { bold: true }],
+      [' and '],
+      ['italic', { italic: true }],
+      ['\n'],
+      ['centred'],
+      ['\n', { align: 'center' }],
+      ['item'],
+      ['\n', { block: 'bullet' }]
+    ]);
+    const bytes = createDocx(chars);
+    const runs = await extractDocxRuns(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+
+    expect(text(runs)).toBe('Heading\nplain bold and italic\ncentred\nitem\n');
+    const newlines = runs.filter(run => run.text === '\n');
+    expect(newlines.map(run => run.attributes)).toEqual([
+      expect.objectContaining({ block: 'h2' }),
+      undefined,
+      expect.objectContaining({ align: 'center' }),
+      expect.objectContaining({ block: 'bullet' })
+    ]);
+    expect(runs.find(run => run.text === 'bold')?.attributes).toMatchObject({ bold: true });
+    expect(runs.find(run => run.text === 'italic')?.attributes).toMatchObject({ italic: true });
+  });
+});
@@ -0,0 +1,224 @@
+import { CRDTAttributes, CRDTChar, RichTextRun } from '../types';
+import { DEFAULT_FONT_FAMILY, DEFAULT_FONT_SIZE, HEADING_FONT_SIZES, LINK_COLOR } from '../constants';
+import { createZip } from './zip';
+import { charsToRuns } from './richText';
+import { DocumentBlock, MAX_INDENT, headingLevel, isHeading, isList, splitBlocks } from './blocks';
+import { normalizeLinkUrl } from './links';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const RELATIONSHIP_TYPES = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Styles and numbering, then one external relationship per link target
+// (rId3 onwards)
+const documentRels = (links: string[]) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="${RELATIONSHIP_TYPES}/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="${RELATIONSHIP_TYPES}/numbering" Target="numbering.xml"/>
+${links.map((url, index) => `<Relationship Id="${linkRelId(index)}" Type="${RELATIONSHIP_TYPES}/hyperlink" Target="${escapeXML(url)}" TargetMode="External"/>`).join('\n')}
+</Relationships>`;
+
+const linkRelId = (index: number) => `rId${index + 3}`;
+
+const W_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+// One editor indent level is half an inch, in twentieths of a point
+const TWIPS_PER_INDENT = 720;
+// Bulleted items share one list definition; each numbered list gets its own
+// so its numbering restarts at 1
+const BULLET_NUM_ID = 1;
+
+const escapeXML = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Word wants a single font name; take the first family of the CSS stack
+const wordFontName = (fontFamily: string) => fontFamily.split(',')[0].trim().replace(/^["']|["']$/g, '');
+
+// CSS px -> Word half-points (1px = 0.75pt)
+const wordFontSize = (fontSize: string) => Math.round(parseFloat(fontSize) * 1.5);
+
+// '#rrggbb' -> 'RRGGBB', or null if it is not a hex colour
+const wordColor = (color: string | undefined) => {
+  const match = color ? /^#([0-9a-f]{6})$/i.exec(color) : null;
+  return match ? match[1].toUpperCase() : null;
+};
+
+// Elements in the order the schema requires
+const runProperties = (attributes: CRDTAttributes = {}) => {
+  let props = '';
+  if (attributes.link) props += '<w:rStyle w:val="Hyperlink"/>';
+  if (attributes.fontFamily) {
+    const font = escapeXML(wordFontName(attributes.fontFamily));
+    props += `<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}"/>`;
+  }
+  if (attributes.bold) props += '<w:b/>';
+  if (attributes.italic) props += '<w:i/>';
+  const color = wordColor(attributes.color);
+  if (color) props += `<w:color w:val="${color}"/>`;
+  if (attributes.fontSize && !isNaN(parseFloat(attributes.fontSize))) {
+    const size = wordFontSize(attributes.fontSize);
+    props += `<w:sz w:val="${size}"/><w:szCs w:val="${size}"/>`;
+  }
+  if (attributes.underline) props += '<w:u w:val="single"/>';
+  const background = wordColor(attributes.backgroundColor);
+  if (background) props += `<w:shd w:val="clear" w:color="auto" w:fill="${background}"/>`;
+  return props ? `<w:rPr>${props}</w:rPr>` : '';
+};
+
+const runXML = (run: RichTextRun) => {
+  // Tabs are their own element in WordprocessingML
+  const content = run.text
+    .split('\t')
+    .map(text => (text ? `<w:t xml:space="preserve">${escapeXML(text)}</w:t>` : ''))
+    .join('<w:tab/>');
+  return `<w:r>${runProperties(run.attributes)}${content}</w:r>`;
+};
+
+// Headings take their size and code blocks their font from the paragraph
+// style, so runs leave those out
+const blockRunAttributes = (attributes: CRDTAttributes = {}, block: DocumentBlock): CRDTAttributes => {
+  const own = { ...attributes };
+  if (isHeading(block.attributes.block)) delete own.fontSize;
+  if (block.attributes.block === 'code') delete own.fontFamily;
+  return own;
+};
+
+const paragraphStyle = (block: DocumentBlock) => {
+  const type = block.attributes.block;
+  if (isHeading(type)) return `Heading${headingLevel(type)}`;
+  if (type === 'quote') return 'Quote';
+  if (type === 'code') return 'Code';
+  return null;
+};
+
+const paragraphProperties = (block: DocumentBlock, numId: number | null) => {
+  const { align, indent = 0 } = block.attributes;
+  let props = '';
+  const style = paragraphStyle(block);
+  if (style) props += `<w:pStyle w:val="${style}"/>`;
+  if (numId !== null) {
+    props += `<w:numPr><w:ilvl w:val="${indent}"/><w:numId w:val="${numId}"/></w:numPr>`;
+  } else if (indent) {
+    props += `<w:ind w:left="${indent * TWIPS_PER_INDENT}"/>`;
+  }
+  if (align) props += `<w:jc w:val="${align === 'justify' ? 'both' : align}"/>`;
+  return props ? `<w:pPr>${props}</w:pPr>` : '';
+};
+
+// Consecutive runs with the same link share one w:hyperlink; `links`
+// collects the targets for the relationships part
+const paragraphXML = (chars: CRDTChar[], block: DocumentBlock, numId: number | null, links: string[]) => {
+  const runs = charsToRuns(chars.slice(block.start, block.end));
+  let content = '';
+  let openLink: string | null = null;
+  runs.forEach(run => {
+    const url = run.attributes?.link ? normalizeLinkUrl(run.attributes.link) : null;
+    if (url !== openLink) {
+      if (openLink !== null) content += '</w:hyperlink>';
+      if (url !== null) {
+        if (!links.includes(url)) links.push(url);
+        content += `<w:hyperlink r:id="${linkRelId(links.indexOf(url))}">`;
+      }
+      openLink = url;
+    }
+    const attributes = blockRunAttributes(run.attributes, block);
+    if (!url) delete attributes.link;
+    content += runXML({ text: run.text, attributes });
+  });
+  if (openLink !== null) content += '</w:hyperlink>';
+  return `<w:p>${paragraphProperties(block, numId)}${content}</w:p>`;
+};
+
+const documentParts = (chars: CRDTChar[]) => {
+  const blocks = splitBlocks(chars);
+  const numberedNumIds: number[] = [];
+  const links: string[] = [];
+  let listNumId = BULLET_NUM_ID;
+
+  const paragraphs = blocks.map((block, index) => {
+    let numId: number | null = null;
+    if (isList(block.attributes.block)) {
+      // A run of list blocks is one list, like splitBlocks numbers it
+      if (!isList(blocks[index - 1]?.attributes.block)) {
+        listNumId = BULLET_NUM_ID + numberedNumIds.length + 1;
+        numberedNumIds.push(listNumId);
+      }
+      numId = block.attributes.block === 'bullet' ? BULLET_NUM_ID : listNumId;
+    }
+    return paragraphXML(chars, block, numId, links);
+  });
+
+  // A document ending in a plain '\n' ends with an empty paragraph
+  const last = blocks[blocks.length - 1];
+  if (last.terminator && Object.keys(last.attributes).length === 0) paragraphs.push('<w:p/>');
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NAMESPACE}" xmlns:r="${RELATIONSHIP_TYPES}"><w:body>${paragraphs.join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+  return { document, numbering: numberingXML(numberedNumIds), rels: documentRels(links) };
+};
+
+const listLevels = (format: 'bullet' | 'decimal') => {
+  let levels = '';
+  for (let level = 0; level <= MAX_INDENT; level++) {
+    const text = format === 'bullet' ? '\u2022' : `%${level + 1}.`;
+    levels += `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${(level + 1) * TWIPS_PER_INDENT}" w:hanging="360"/></w:pPr></w:lvl>`;
+  }
+  return levels;
+};
+
+const numberingXML = (numberedNumIds: number[]) => {
+  const restart = Array.from({ length: MAX_INDENT + 1 }, (_, level) =>
+    `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="1"/></w:lvlOverride>`
+  ).join('');
+  const nums = numberedNumIds
+    .map(numId => `<w:num w:numId="${numId}"><w:abstractNumId w:val="1"/>${restart}</w:num>`)
+    .join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="${W_NAMESPACE}"><w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${listLevels('bullet')}</w:abstractNum><w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${listLevels('decimal')}</w:abstractNum><w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>${nums}</w:numbering>`;
+};
+
+const headingStyle = (level: number) => {
+  const size = Math.round(parseFloat(HEADING_FONT_SIZES[level - 1]) * 1.5);
+  return `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`;
+};
+
+const stylesXML = () => {
+  const font = escapeXML(wordFontName(DEFAULT_FONT_FAMILY));
+  const size = wordFontSize(DEFAULT_FONT_SIZE);
+  const headings = [1, 2, 3, 4, 5, 6].map(headingStyle).join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NAMESPACE}"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}"/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:rPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>${headings}<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="CBD5E1"/></w:pBdr><w:ind w:left="360"/></w:pPr><w:rPr><w:color w:val="64748B"/></w:rPr></w:style><w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="${wordColor(LINK_COLOR)}"/><w:u w:val="single"/></w:rPr></w:style><w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F1F5F9"/><w:spacing w:after="0"/></w:pPr><w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/></w:rPr></w:style></w:styles>`;
+};
+
+// Builds a .docx package: one paragraph per block, one run per stretch of
+// identically formatted characters. Block types map onto heading, quote and
+// code paragraph styles and list numbering.
+export const createDocx = (chars: CRDTChar[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const { document, numbering, rels } = documentParts(chars);
+  return createZip([
+    { name: '[Content_Types].xml', data: encoder.encode(CONTENT_TYPES) },
+    { name: '_rels/.rels', data: encoder.encode(ROOT_RELS) },
+    { name: 'word/document.xml', data: encoder.encode(document) },
+    { name: 'word/_rels/document.xml.rels', data: encoder.encode(rels) },
+    { name: 'word/styles.xml', data: encoder.encode(stylesXML()) },
+    { name: 'word/numbering.xml', data: encoder.encode(numbering) },
+  ]);
+};
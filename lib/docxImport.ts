@@ -0,0 +1,230 @@
+import * as mammoth from 'mammoth';
+import { BlockAttributes, BlockType, CRDTAttributes, RichTextRun, TextAlign } from '../types';
+import { FONT_SIZES, FONT_FAMILIES } from '../constants';
+import { fontFamilyIndex, nearestFontSize, sameAttributes } from './richText';
+import { MAX_INDENT } from './blocks';
+import { normalizeLinkUrl } from './links';
+
+// Mammoth drops run font sizes and families from its HTML. We tag such runs
+// with a synthetic style name in transformDocument and map every
+// size/family combination onto a span carrying data attributes.
+const RUN_STYLE_PREFIX = 'collab-run';
+// Mammoth drops paragraph alignment and indent too; those paragraphs get a
+// leading zero-width run whose synthetic style maps onto a marker span
+const LAYOUT_STYLE_PREFIX = 'collab-layout';
+const LAYOUT_MARKER = '\u200b';
+const ALIGNMENTS: TextAlign[] = ['left', 'center', 'right', 'justify'];
+// Word indents in twentieths of a point; one editor level is half an inch
+const TWIPS_PER_INDENT = 720;
+
+const BLOCK_TAGS = new Set(['P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'LI', 'TR', 'BLOCKQUOTE', 'PRE', 'DIV', 'TABLE', 'UL', 'OL']);
+// Blocks that hold text directly; an empty one is still a blank line
+const LEAF_BLOCK_TAGS = new Set(['P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'PRE']);
+
+// Word sizes are in points
+const pointsToFontSize = (points: number) => nearestFontSize((points * 4) / 3);
+
+const runStyleName = (sizeIndex: number, familyIndex: number) => `${RUN_STYLE_PREFIX}:${sizeIndex}:${familyIndex}`;
+
+const layoutStyleName = (align: TextAlign, indent: number) => `${LAYOUT_STYLE_PREFIX}:${align}:${indent}`;
+
+const buildStyleMap = () => {
+  // Mammoth ignores underline unless asked; quote and code paragraphs use
+  // the style names our export writes
+  const styleMap = [
+    'u => u',
+    "p[style-name='Quote'] => blockquote > p:fresh",
+    "p[style-name='Intense Quote'] => blockquote > p:fresh",
+    "p[style-name='Code'] => pre:fresh",
+  ];
+  for (let s = -1; s < FONT_SIZES.length; s++) {
+    for (let f = -1; f < FONT_FAMILIES.length; f++) {
+      if (s < 0 && f < 0) continue;
+      const size = s >= 0 ? `[data-size='${FONT_SIZES[s]}']` : '';
+      const family = f >= 0 ? `[data-family='${f}']` : '';
+      styleMap.push(`r[style-name='${runStyleName(s, f)}'] => span${size}${family}`);
+    }
+  }
+  ALIGNMENTS.forEach(align => {
+    for (let indent = 0; indent <= MAX_INDENT; indent++) {
+      styleMap.push(`r[style-name='${layoutStyleName(align, indent)}'] => span[data-align='${align}'][data-indent='${indent}']`);
+    }
+  });
+  return styleMap;
+};
+
+// Replaces the run's own character style (if any) when it has an explicit
+// size or font; bold/italic/underline are run properties and survive
+const tagRunFonts = (element: any): any => {
+  const children = element.children ? element.children.map(tagRunFonts) : element.children;
+  const next = children === element.children ? element : { ...element, children };
+  if (next.type !== 'run' || (!next.fontSize && !next.font)) return next;
+  const sizeIndex = next.fontSize ? FONT_SIZES.indexOf(pointsToFontSize(next.fontSize)) : -1;
+  const familyIndex = next.font ? fontFamilyIndex(next.font) : -1;
+  return { ...next, styleName: runStyleName(sizeIndex, familyIndex) };
+};
+
+const wordAlignment = (alignment: string | undefined): TextAlign => {
+  if (alignment === 'center') return 'center';
+  if (alignment === 'right' || alignment === 'end') return 'right';
+  if (alignment === 'both' || alignment === 'distribute') return 'justify';
+  return 'left';
+};
+
+// List paragraphs get their level from the numbering instead
+const tagParagraphLayout = (element: any): any => {
+  const children = element.children ? element.children.map(tagParagraphLayout) : element.children;
+  const next = children === element.children ? element : { ...element, children };
+  if (next.type !== 'paragraph') return next;
+  const align = wordAlignment(next.alignment);
+  const start = Number(next.indent?.start) || 0;
+  const indent = next.numbering ? 0 : Math.min(MAX_INDENT, Math.round(start / TWIPS_PER_INDENT));
+  if (align === 'left' && indent === 0) return next;
+  const marker = {
+    type: 'run',
+    children: [{ type: 'text', value: LAYOUT_MARKER }],
+    styleId: null,
+    styleName: layoutStyleName(align, indent),
+    highlight: null,
+  };
+  return { ...next, children: [marker, ...next.children] };
+};
+
+const elementAttributes = (element: HTMLElement, inherited: CRDTAttributes): CRDTAttributes => {
+  const attributes = { ...inherited };
+  switch (element.tagName) {
+    case 'STRONG':
+    case 'B':
+      attributes.bold = true;
+      break;
+    case 'EM':
+    case 'I':
+      attributes.italic = true;
+      break;
+    case 'U':
+      attributes.underline = true;
+      break;
+    case 'A': {
+      // Bookmarks and in-document anchors have no link we can follow
+      const href = normalizeLinkUrl(element.getAttribute('href') || '');
+      if (href) attributes.link = href;
+      break;
+    }
+    case 'SPAN':
+      if (element.dataset.size) attributes.fontSize = element.dataset.size;
+      if (element.dataset.family) attributes.fontFamily = FONT_FAMILIES[Number(element.dataset.family)]?.value;
+      break;
+  }
+  return attributes;
+};
+
+// Block attributes of a paragraph element inside `context` (the block
+// attributes of its enclosing list or quote)
+const paragraphBlock = (element: HTMLElement, context: BlockAttributes): BlockAttributes => {
+  const heading = /^H([1-6])$/.exec(element.tagName);
+  if (heading) return { block: `h${heading[1]}` as BlockType };
+  if (element.tagName === 'PRE') return { block: 'code' };
+  return { ...context };
+};
+
+interface Paragraph {
+  runs: RichTextRun[];
+  attributes: BlockAttributes;
+}
+
+// Flattens Mammoth's HTML into runs with one '\n' per paragraph; block
+// attributes (headings, lists, quotes, code, alignment, indent) ride on
+// that '\n' like they do in the editor
+export const htmlToRuns = (html: string): RichTextRun[] => {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  const paragraphs: Paragraph[] = [];
+  let current: Paragraph | null = null;
+
+  const startParagraph = (attributes: BlockAttributes) => {
+    current = { runs: [], attributes };
+    paragraphs.push(current);
+    return current;
+  };
+
+  const emit = (text: string, attributes: CRDTAttributes, context: BlockAttributes) => {
+    if (!text) return;
+    const paragraph: Paragraph = current ?? startParagraph({ ...context });
+    const last = paragraph.runs[paragraph.runs.length - 1];
+    if (last && sameAttributes(last.attributes, attributes)) {
+      last.text += text;
+    } else {
+      paragraph.runs.push({ text, attributes: Object.keys(attributes).length > 0 ? attributes : undefined });
+    }
+  };
+
+  const walk = (node: Node, attributes: CRDTAttributes, context: BlockAttributes, inCell: boolean) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      emit(node.textContent || '', attributes, context);
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+
+    if (node.tagName === 'BR') {
+      // A soft break starts a new line of the same kind
+      startParagraph({ ...(current?.attributes ?? context) });
+      return;
+    }
+    if (node.dataset.align || node.dataset.indent) {
+      const paragraph: Paragraph = current ?? startParagraph({ ...context });
+      if (node.dataset.align && node.dataset.align !== 'left') paragraph.attributes.align = node.dataset.align as TextAlign;
+      if (Number(node.dataset.indent) > 0) paragraph.attributes.indent = Number(node.dataset.indent);
+      return;
+    }
+
+    const childAttributes = elementAttributes(node, attributes);
+    let childContext = context;
+    if (node.tagName === 'UL' || node.tagName === 'OL') {
+      // Nested lists sit one indent level deeper than the item holding them
+      const depth = context.block === 'bullet' || context.block === 'numbered' ? (context.indent || 0) + 1 : 0;
+      childContext = { block: node.tagName === 'OL' ? 'numbered' : 'bullet' };
+      if (depth > 0) childContext.indent = Math.min(depth, MAX_INDENT);
+    } else if (node.tagName === 'BLOCKQUOTE') {
+      childContext = { block: 'quote' };
+    }
+
+    if (node.tagName === 'TR') {
+      startParagraph({});
+    } else if ((node.tagName === 'TD' || node.tagName === 'TH') && node.previousElementSibling) {
+      emit('\t', attributes, context);
+    }
+
+    const isParagraph = node.tagName === 'LI' || (LEAF_BLOCK_TAGS.has(node.tagName) && !inCell);
+    if (isParagraph) startParagraph(paragraphBlock(node, context));
+    node.childNodes.forEach(child =>
+      walk(child, childAttributes, childContext, inCell || node.tagName === 'TD' || node.tagName === 'TH')
+    );
+    if (isParagraph || BLOCK_TAGS.has(node.tagName)) current = null;
+  };
+
+  body.childNodes.forEach(child => walk(child, {}, {}, false));
+
+  // Every paragraph but the last ends in a '\n'; the last one only needs it
+  // to carry block attributes
+  const runs: RichTextRun[] = [];
+  paragraphs.forEach((paragraph, index) => {
+    runs.push(...paragraph.runs);
+    const isLast = index === paragraphs.length - 1;
+    if (!isLast || Object.keys(paragraph.attributes).length > 0) {
+      runs.push({ text: '\n', attributes: Object.keys(paragraph.attributes).length > 0 ? { ...paragraph.attributes } : undefined });
+    }
+  });
+  return runs;
+};
+
+export const extractDocxRuns = async (arrayBuffer: ArrayBuffer): Promise<RichTextRun[]> => {
+  const result = await mammoth.convertToHtml(
+    { arrayBuffer },
+    {
+      styleMap: buildStyleMap(),
+      transformDocument: (document: any) => tagParagraphLayout(tagRunFonts(document)),
+      // Blank lines in the document are blank lines in the editor too
+      ignoreEmptyParagraphs: false,
+    }
+  );
+  return htmlToRuns(result.value || '');
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { LSEQ } from './crdt';
+import { attributeDiff, restorePlan } from './history';
+
+describe('attributeDiff', () => {
+  it('sets changed keys and clears removed ones', () => {
+    expect(attributeDiff({ bold: true, color: 'red' }, { color: 'blue', italic: true })).toEqual({ bold: null, color: 'blue', italic: true });
+    expect(attributeDiff({ bold: true }, { bold: true })).toEqual({});
+  });
+});
+
+describe('restorePlan', () => {
+  it('removes new text, brings deleted text back and restores formatting', () => {
+    const doc = new LSEQ('a');
+    [...'abc'].forEach((value, i) => doc.localInsert(i, value));
+    const version = doc.state;
+
+    doc.localDelete(1);
+    doc.localInsert(2, 'd');
+    doc.localFormat(0, { bold: true });
+
+    const plan = restorePlan(doc.state, version);
+    expect(plan.remove.map(c => c.value)).toEqual(['d']);
+    expect(plan.reinsert.map(c => c.value)).toEqual(['b']);
+    expect(plan.reformat).toEqual([{ char: expect.objectContaining({ value: 'a' }), patch: { bold: null } }]);
+
+    // Applying the plan with the usual edits gives back the version
+    doc.localDeleteChars(plan.remove);
+    doc.localReinsert(plan.reinsert);
+    doc.localFormat(0, plan.reformat[0].patch);
+    expect(doc.text).toBe('abc');
+    expect(doc.state[0].attributes).toEqual({});
+  });
+});
@@ -0,0 +1,47 @@
+import { AttributePatch, CRDTAttributes, CRDTChar } from '../types';
+import { idKey } from './crdt';
+import { sameAttributes } from './richText';
+
+export interface RestorePlan {
+  // Current chars the version does not have
+  remove: CRDTChar[];
+  // Version chars that are no longer in the document, in version order
+  reinsert: CRDTChar[];
+  // Chars both share whose attributes changed since, with the patch that
+  // puts the version's attributes back
+  reformat: { char: CRDTChar; patch: AttributePatch }[];
+}
+
+// Patch turning attributes `from` into `to`; null clears a key
+export const attributeDiff = (from: CRDTAttributes = {}, to: CRDTAttributes = {}): AttributePatch => {
+  const patch: AttributePatch = {};
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)]) as Set<keyof CRDTAttributes>;
+  keys.forEach(key => {
+    if (from[key] !== to[key]) (patch as any)[key] = to[key] ?? null;
+  });
+  return patch;
+};
+
+// What it takes to bring `current` back to a saved version. Chars are
+// matched by identity, so text typed since is removed and text deleted since
+// comes back where it was, without touching anything the two share.
+export const restorePlan = (current: CRDTChar[], version: CRDTChar[]): RestorePlan => {
+  const wanted = new Map(version.map(char => [idKey(char.position, char.siteId), char]));
+  const present = new Set<string>();
+  const plan: RestorePlan = { remove: [], reinsert: [], reformat: [] };
+
+  current.forEach(char => {
+    const key = idKey(char.position, char.siteId);
+    const saved = wanted.get(key);
+    if (!saved) {
+      plan.remove.push(char);
+      return;
+    }
+    present.add(key);
+    if (!sameAttributes(char.attributes, saved.attributes)) {
+      plan.reformat.push({ char, patch: attributeDiff(char.attributes, saved.attributes) });
+    }
+  });
+  plan.reinsert = version.filter(char => !present.has(idKey(char.position, char.siteId)));
+  return plan;
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { CRDTChar } from '../types';
+import { MAX_LINK_LENGTH, findUrls, linkRangeAt, normalizeLinkUrl } from './links';
+
+describe('normalizeLinkUrl', () => {
+  it('adds a scheme to bare hosts and emails', () => {
+    expect(normalizeLinkUrl(' example.com/a ')).toBe('https://example.com/a');
+    expect(normalizeLinkUrl('ada@example.com')).toBe('mailto:ada@example.com');
+    expect(normalizeLinkUrl('HTTP://example.com')).toBe('HTTP://example.com');
+  });
+
+  it('refuses scripts, unknown schemes and plain words', () => {
+    expect(normalizeLinkUrl('javascript:alert(1)')).toBeNull();
+    expect(normalizeLinkUrl('data:text/html,hi')).toBeNull();
+    expect(normalizeLinkUrl('hello')).toBeNull();
+    expect(normalizeLinkUrl('   ')).toBeNull();
+  });
+
+  it('refuses links longer than the op schema allows', () => {
+    const path = 'a'.repeat(MAX_LINK_LENGTH - 'https://example.com/'.length);
+    expect(normalizeLinkUrl(`example.com/${path}`)).toBe(`https://example.com/${path}`);
+    expect(normalizeLinkUrl(`example.com/${path}a`)).toBeNull();
+  });
+});
+
+describe('findUrls', () => {
+  it('leaves sentence punctuation out of the link', () => {
+    expect(findUrls('See www.example.com, or (https://example.org).')).toEqual([
+      { start: 4, end: 19, url: 'https://www.example.com' },
+      { start: 25, end: 44, url: 'https://example.org' }
+    ]);
+  });
+
+  it('keeps a balanced closing paren', () => {
+    const [found] = findUrls('https://en.wikipedia.org/wiki/Lisp_(language)');
+    expect(found.url).toBe('https://en.wikipedia.org/wiki/Lisp_(language)');
+  });
+});
+
+describe('linkRangeAt', () => {
+  const chars: CRDTChar[] = [...'a link here'].map((value, i) => ({
+    value,
+    position: [i],
+    siteId: 'a',
+    attributes: i >= 2 && i < 6 ? { link: 'https://example.com' } : undefined
+  }));
+
+  it('covers the whole run sharing the link', () => {
+    expect(linkRangeAt(chars, 3)).toEqual({ start: 2, end: 6, url: 'https://example.com' });
+    // Caret right after the link
+    expect(linkRangeAt(chars, 6)).toEqual({ start: 2, end: 6, url: 'https://example.com' });
+    expect(linkRangeAt(chars, 8)).toBeNull();
+  });
+});
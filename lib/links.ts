@@ -0,0 +1,54 @@
+import { CRDTChar } from '../types';
+
+const SAFE_SCHEMES = ['http:', 'https:', 'mailto:', 'tel:'];
+// Longest link the op schema (lib/opSchema.js) lets through
+export const MAX_LINK_LENGTH = 2048;
+
+const withScheme = (url: string): string | null => {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url);
+  if (scheme) return SAFE_SCHEMES.includes(scheme[1].toLowerCase() + ':') ? url : null;
+  if (/^[^\s@/]+@[^\s@/]+\.[^\s@/]+$/.test(url)) return `mailto:${url}`;
+  return /^[^\s]+\.[^\s]+/.test(url) ? `https://${url}` : null;
+};
+
+// Turns what someone typed or imported into an href we are willing to open:
+// bare hosts get https://, bare emails mailto:, and scripts, other schemes
+// and links too long for the relay are refused (null)
+export const normalizeLinkUrl = (input: string): string | null => {
+  const url = input.trim();
+  if (!url) return null;
+  const href = withScheme(url);
+  return href && href.length <= MAX_LINK_LENGTH ? href : null;
+};
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi;
+
+// URLs in pasted text, without trailing punctuation that belongs to the
+// sentence around them
+export const findUrls = (text: string): { start: number; end: number; url: string }[] => {
+  const found: { start: number; end: number; url: string }[] = [];
+  for (const match of text.matchAll(URL_PATTERN)) {
+    let raw = match[0];
+    while (/[.,;:!?'")\]]$/.test(raw)) {
+      // Keep the closing paren of e.g. a Wikipedia URL
+      if (raw.endsWith(')') && raw.split('(').length >= raw.split(')').length) break;
+      raw = raw.slice(0, -1);
+    }
+    const url = normalizeLinkUrl(raw);
+    if (url) found.push({ start: match.index!, end: match.index! + raw.length, url });
+  }
+  return found;
+};
+
+// The stretch of chars sharing the link of the char at or before caret
+// position `index`, as [start, end)
+export const linkRangeAt = (chars: CRDTChar[], index: number): { start: number; end: number; url: string } | null => {
+  const at = chars[index]?.attributes?.link ? index : chars[index - 1]?.attributes?.link ? index - 1 : -1;
+  if (at < 0) return null;
+  const url = chars[at].attributes!.link!;
+  let start = at;
+  let end = at + 1;
+  while (start > 0 && chars[start - 1].attributes?.link === url) start--;
+  while (end < chars.length && chars[end].attributes?.link === url) end++;
+  return { start, end, url };
+};
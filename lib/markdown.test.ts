@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { CRDTChar, RichTextRun } from '../types';
+import { charsToMarkdown, markdownDropsLayout, markdownToRuns } from './markdown';
+
+const runsToChars = (runs: RichTextRun[]): CRDTChar[] =>
+  runs.flatMap(run => [...run.text].map(value => ({ value, attributes: run.attributes }))).map((char, i) => ({
+    ...char,
+    position: [i + 1],
+    siteId: 'a'
+  }));
+
+const roundTrip = (markdown: string) => charsToMarkdown(runsToChars(markdownToRuns(markdown)));
+
+describe('Markdown', () => {
+  it.each([
+    ['headings and paragraphs', '# Title\n\nSome **bold**, _italic_ and `code`.\n'],
+    ['lists', '- one\n  - nested\n1. first\n2. second\n'],
+    ['quotes and links', '> quoted [link](https://example.com)\n'],
+    ['fenced code', '```\nconst a = 1;\n```\n'],
+    ['inline HTML for underline and colour', 'an <u>underlined</u> and <span style="color: #dc2626">red</span> word\n']
+  ])('round-trips %s', (_, markdown) => {
+    expect(roundTrip(markdown)).toBe(markdown);
+  });
+
+  it('maps Markdown syntax onto attributes', () => {
+    const chars = runsToChars(markdownToRuns('## Sub\n- **x**\n'));
+    const newlines = chars.filter(c => c.value === '\n');
+    expect(newlines[0].attributes).toMatchObject({ block: 'h2' });
+    expect(newlines[1].attributes).toMatchObject({ block: 'bullet' });
+    expect(chars.find(c => c.value === 'x')?.attributes).toMatchObject({ bold: true });
+  });
+
+  it('snaps inline styles to the toolbar and drops links the relay would refuse', () => {
+    const runs = markdownToRuns(
+      '<span style="font-size: 13pt; font-family: Comic Sans; color: red; background-color: #ffff00">a</span>' +
+        `<span style="color: #ff0000">b</span>[c](https://example.com/${'x'.repeat(2048)})[d](javascript:alert(1))\n`
+    );
+    const chars = runsToChars(runs);
+    expect(chars[0].attributes).toMatchObject({
+      fontSize: '18px',
+      fontFamily: 'Inter, system-ui, sans-serif',
+      backgroundColor: '#fef08a'
+    });
+    expect(chars[0].attributes?.color).toBeUndefined();
+    expect(chars[1].attributes?.color).toBe('#dc2626');
+    expect(chars.slice(2, 4).map(c => c.attributes?.link)).toEqual([undefined, undefined]);
+  });
+
+  it('lengthens the fence around code containing backticks', () => {
+    const chars = runsToChars([
+      { text: '```\n', attributes: { block: 'code' } },
+    ]).map(c => ({ ...c, attributes: { block: 'code' as const } }));
+    expect(charsToMarkdown(chars)).toBe('````\n```\n````\n');
+  });
+
+  it('reports when alignment or indent outside lists would be lost', () => {
+    const withLine = (attributes: CRDTChar['attributes']) => runsToChars([{ text: 'x' }, { text: '\n', attributes }]);
+    expect(markdownDropsLayout(withLine({ align: 'center' }))).toBe(true);
+    expect(markdownDropsLayout(withLine({ indent: 2 }))).toBe(true);
+    expect(markdownDropsLayout(withLine({ block: 'bullet', indent: 2 }))).toBe(false);
+    expect(markdownDropsLayout(withLine({ align: 'left', block: 'h1' }))).toBe(false);
+  });
+});
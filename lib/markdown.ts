@@ -0,0 +1,484 @@
+import { BlockAttributes, BlockType, CRDTAttributes, CRDTChar, RichTextRun } from '../types';
+import { DEFAULT_FONT_SIZE, DEFAULT_FONT_FAMILY, FONT_FAMILIES, HIGHLIGHT_COLORS, TEXT_COLORS } from '../constants';
+import { charsToRuns, fontFamilyIndex, nearestFontSize, sameAttributes } from './richText';
+import { normalizeLinkUrl } from './links';
+import { DocumentBlock, MAX_INDENT, headingLevel, isHeading, isList, splitBlocks } from './blocks';
+
+// One editor line is one Markdown line. Headings, lists, quotes and fenced
+// code map onto block attributes; bold/italic/code/links use Markdown
+// syntax; underline, colours and non-default fonts fall back to inline
+// HTML, which keeps export -> import lossless. Alignment and indent outside
+// lists have no Markdown syntax and are dropped (see markdownDropsLayout).
+
+const DEFAULT_ATTRIBUTES: CRDTAttributes = { fontSize: DEFAULT_FONT_SIZE, fontFamily: DEFAULT_FONT_FAMILY };
+
+const isAlphanumeric = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+const isWhitespace = (char: string | undefined) => !char || /\s/.test(char);
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+const encodeAttribute = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// --- Import ---------------------------------------------------------------
+
+interface InlineState extends CRDTAttributes {}
+
+const cleanAttributes = (state: InlineState): CRDTAttributes => {
+  const attributes: CRDTAttributes = {};
+  (Object.keys(state) as (keyof CRDTAttributes)[]).forEach(key => {
+    if (state[key]) (attributes as any)[key] = state[key];
+  });
+  return attributes;
+};
+
+const rgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+// The palette entry closest to a #rrggbb colour
+const nearestColor = (hex: string, palette: { value: string }[]) => {
+  const target = rgb(hex);
+  const distance = (value: string) => rgb(value).reduce((sum, channel, i) => sum + (channel - target[i]) ** 2, 0);
+  return palette.reduce((best, color) => (distance(color.value) < distance(best.value) ? color : best)).value;
+};
+
+// Like the DOCX import, styles snap to what the toolbar offers: sizes in px
+// or pt to the nearest size, fonts to a family, #rrggbb colours to the
+// nearest palette entry. Anything else is dropped.
+const parseStyle = (style: string): CRDTAttributes => {
+  const attributes: CRDTAttributes = {};
+  style.split(';').forEach(declaration => {
+    const colon = declaration.indexOf(':');
+    if (colon < 0) return;
+    const name = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration.slice(colon + 1).trim();
+    const size = /^(\d+(?:\.\d+)?)(px|pt)?$/i.exec(value);
+    const hex = /^#[0-9a-f]{6}$/i.test(value);
+    if (name === 'font-size' && size) {
+      const px = parseFloat(size[1]) * (size[2]?.toLowerCase() === 'pt' ? 4 / 3 : 1);
+      attributes.fontSize = nearestFontSize(px);
+    }
+    if (name === 'font-family' && value) attributes.fontFamily = FONT_FAMILIES[fontFamilyIndex(value)].value;
+    if (name === 'color' && hex) attributes.color = nearestColor(value, TEXT_COLORS);
+    if (name === 'background-color' && hex) attributes.backgroundColor = nearestColor(value, HIGHLIGHT_COLORS);
+  });
+  return attributes;
+};
+
+// Index of the backtick run closing a code span whose opening run of
+// `fence` backticks ends right before `from`, or -1
+const findCodeSpanEnd = (line: string, from: number, fence: number) => {
+  const marker = '`'.repeat(fence);
+  let close = line.indexOf(marker, from);
+  // The closing run must be exactly as long as the opening one
+  while (close >= 0 && line[close + fence] === '`') {
+    let next = close;
+    while (line[next] === '`') next++;
+    close = line.indexOf(marker, next);
+  }
+  return close;
+};
+
+// Finds the `]` closing the link text that opens at `start`, skipping
+// escapes and code spans
+const findLinkTextEnd = (line: string, start: number) => {
+  let depth = 0;
+  for (let i = start; i < line.length; i++) {
+    if (line[i] === '\\') { i++; continue; }
+    if (line[i] === '`') {
+      let fence = 0;
+      while (line[i + fence] === '`') fence++;
+      const close = findCodeSpanEnd(line, i + fence, fence);
+      i = close < 0 ? i + fence - 1 : close + fence - 1;
+      continue;
+    }
+    if (line[i] === '[') depth++;
+    if (line[i] === ']' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// Parses `(url)` or `(<url>)` at `start`; returns the url and the index of `)`
+const parseLinkDestination = (line: string, start: number): { url: string; end: number } | null => {
+  if (line[start] !== '(') return null;
+  if (line[start + 1] === '<') {
+    const close = line.indexOf('>)', start + 2);
+    return close < 0 ? null : { url: line.slice(start + 2, close), end: close + 1 };
+  }
+  let depth = 0;
+  for (let i = start; i < line.length; i++) {
+    if (line[i] === '\\') { i++; continue; }
+    if (line[i] === '(') depth++;
+    if (line[i] === ')' && --depth === 0) {
+      return { url: line.slice(start + 1, i).replace(/\\(.)/g, '$1').trim(), end: i };
+    }
+  }
+  return null;
+};
+
+const parseInline = (line: string, base: CRDTAttributes, runs: RichTextRun[]) => {
+  const state: InlineState = { ...base };
+  const spanStack: CRDTAttributes[] = [];
+  const linkStack: (string | undefined)[] = [];
+
+  const emit = (text: string, overrides: CRDTAttributes = {}) => {
+    if (!text) return;
+    const attributes = cleanAttributes({ ...state, ...overrides });
+    const last = runs[runs.length - 1];
+    if (last && sameAttributes(last.attributes, attributes)) {
+      last.text += text;
+    } else {
+      runs.push({ text, attributes });
+    }
+  };
+
+  let i = 0;
+  while (i < line.length) {
+    const char = line[i];
+
+    if (char === '\\' && i + 1 < line.length && /[!-\/:-@\[-`{-~]/.test(line[i + 1])) {
+      emit(line[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      let fence = 0;
+      while (line[i + fence] === '`') fence++;
+      const close = findCodeSpanEnd(line, i + fence, fence);
+      if (close < 0) {
+        emit('`'.repeat(fence));
+        i += fence;
+        continue;
+      }
+      let content = line.slice(i + fence, close);
+      if (content.length > 2 && content.startsWith(' ') && content.endsWith(' ') && content.trim()) {
+        content = content.slice(1, -1);
+      }
+      emit(content, { code: true });
+      i = close + fence;
+      continue;
+    }
+
+    if (char === '*' || char === '_') {
+      let count = 0;
+      while (line[i + count] === char) count++;
+      const prev = line[i - 1];
+      const next = line[i + count];
+      // snake_case stays literal
+      if (char === '_' && count === 1 && isAlphanumeric(prev) && isAlphanumeric(next)) {
+        emit(char);
+        i++;
+        continue;
+      }
+      // Each `**` toggles bold and each remaining `*` or `_` toggles italic;
+      // a marker only opens before text and only closes after text
+      let literal = '';
+      let remaining = count;
+      while (remaining > 0) {
+        const isBold = char === '*' && remaining >= 2;
+        const key: 'bold' | 'italic' = isBold ? 'bold' : 'italic';
+        const canToggle = state[key] ? !isWhitespace(prev) : !isWhitespace(next);
+        if (canToggle) {
+          state[key] = !state[key];
+        } else {
+          literal += isBold ? '**' : char;
+        }
+        remaining -= isBold ? 2 : 1;
+      }
+      emit(literal);
+      i += count;
+      continue;
+    }
+
+    if (char === '[') {
+      const textEnd = findLinkTextEnd(line, i);
+      const destination = textEnd >= 0 ? parseLinkDestination(line, textEnd + 1) : null;
+      if (destination) {
+        // Links we would not open, or the relay would refuse, keep only their text
+        const link = normalizeLinkUrl(destination.url) || undefined;
+        const inner: RichTextRun[] = [];
+        parseInline(line.slice(i + 1, textEnd), { ...cleanAttributes(state), link }, inner);
+        inner.forEach(run => {
+          const last = runs[runs.length - 1];
+          if (last && sameAttributes(last.attributes, run.attributes)) {
+            last.text += run.text;
+          } else {
+            runs.push(run);
+          }
+        });
+        i = destination.end + 1;
+        continue;
+      }
+    }
+
+    if (char === '<') {
+      const tag = /^<(\/?)(strong|b|em|i|u|code|span|a)\b([^>]*)>/i.exec(line.slice(i));
+      if (tag) {
+        const closing = tag[1] === '/';
+        const name = tag[2].toLowerCase();
+        const attributes = tag[3];
+        i += tag[0].length;
+
+        if (name === 'code' && !closing) {
+          const close = line.toLowerCase().indexOf('</code>', i);
+          const end = close < 0 ? line.length : close;
+          emit(decodeEntities(line.slice(i, end)), { code: true });
+          i = close < 0 ? end : end + '</code>'.length;
+        } else if (name === 'strong' || name === 'b') {
+          state.bold = !closing;
+        } else if (name === 'em' || name === 'i') {
+          state.italic = !closing;
+        } else if (name === 'u') {
+          state.underline = !closing;
+        } else if (name === 'span') {
+          if (closing) {
+            const previous = spanStack.pop();
+            if (previous) {
+              state.fontSize = previous.fontSize;
+              state.fontFamily = previous.fontFamily;
+              state.color = previous.color;
+              state.backgroundColor = previous.backgroundColor;
+            }
+          } else {
+            spanStack.push({
+              fontSize: state.fontSize,
+              fontFamily: state.fontFamily,
+              color: state.color,
+              backgroundColor: state.backgroundColor
+            });
+            const style = /style\s*=\s*"([^"]*)"/i.exec(attributes);
+            if (style) Object.assign(state, parseStyle(decodeEntities(style[1])));
+          }
+        } else if (name === 'a') {
+          if (closing) {
+            state.link = linkStack.pop();
+          } else {
+            linkStack.push(state.link);
+            const href = /href\s*=\s*"([^"]*)"/i.exec(attributes);
+            state.link = href ? normalizeLinkUrl(decodeEntities(href[1])) || undefined : state.link;
+          }
+        }
+        continue;
+      }
+    }
+
+    emit(char);
+    i++;
+  }
+};
+
+const LIST_INDENT = 2;
+
+const listIndent = (leading: string) =>
+  Math.min(MAX_INDENT, Math.floor(leading.replace(/\t/g, '    ').length / LIST_INDENT));
+
+const cleanBlock = (attributes: BlockAttributes): BlockAttributes => {
+  const cleaned = { ...attributes };
+  if (!cleaned.indent) delete cleaned.indent;
+  return cleaned;
+};
+
+// Block syntax of a line outside fences, and the text after it
+const parseBlock = (line: string): { attributes: BlockAttributes; text: string } => {
+  const heading = /^(#{1,6}) (.*)$/.exec(line);
+  if (heading) return { attributes: { block: `h${heading[1].length}` as BlockType }, text: heading[2] };
+
+  const bullet = /^(\s*)[-*+] (.*)$/.exec(line);
+  if (bullet) return { attributes: cleanBlock({ block: 'bullet', indent: listIndent(bullet[1]) }), text: bullet[2] };
+
+  const numbered = /^(\s*)\d{1,9}[.)] (.*)$/.exec(line);
+  if (numbered) return { attributes: cleanBlock({ block: 'numbered', indent: listIndent(numbered[1]) }), text: numbered[2] };
+
+  const quote = /^>\s?(.*)$/.exec(line);
+  if (quote) return { attributes: { block: 'quote' }, text: quote[1] };
+
+  return { attributes: {}, text: line };
+};
+
+export const markdownToRuns = (markdown: string): RichTextRun[] => {
+  const source = markdown.replace(/\r\n?/g, '\n');
+  const lines = (source.endsWith('\n') ? source.slice(0, -1) : source).split('\n');
+  const runs: RichTextRun[] = [];
+  // The opening fence while inside a fenced code block
+  let fence: string | null = null;
+  // Block attributes of the previous line, carried by the '\n' ending it
+  let pending: BlockAttributes | null = null;
+
+  const endLine = (attributes: BlockAttributes | null) => {
+    if (attributes) runs.push({ text: '\n', attributes: { ...DEFAULT_ATTRIBUTES, ...attributes } });
+  };
+
+  lines.forEach(line => {
+    const fenceMatch = /^\s*(`{3,}|~{3,})/.exec(line);
+    if (fence === null && fenceMatch) {
+      fence = fenceMatch[1];
+      return;
+    }
+    if (fence !== null && fenceMatch && line.trim().startsWith(fence) && /^(`+|~+)$/.test(line.trim())) {
+      fence = null;
+      return;
+    }
+    endLine(pending);
+
+    if (fence !== null) {
+      if (line) runs.push({ text: line, attributes: { ...DEFAULT_ATTRIBUTES } });
+      pending = { block: 'code' };
+      return;
+    }
+
+    const { attributes, text } = parseBlock(line);
+    parseInline(text, DEFAULT_ATTRIBUTES, runs);
+    pending = attributes;
+  });
+
+  // Every line but the last is ended by a '\n'; the last one only needs it
+  // to carry block attributes
+  if (pending && Object.keys(pending).length > 0) endLine(pending);
+
+  // Merge the newline runs into their neighbours where attributes match
+  return runs.reduce<RichTextRun[]>((merged, run) => {
+    const last = merged[merged.length - 1];
+    if (last && sameAttributes(last.attributes, run.attributes)) {
+      last.text += run.text;
+    } else {
+      merged.push({ ...run });
+    }
+    return merged;
+  }, []);
+};
+
+// --- Export ---------------------------------------------------------------
+
+const escapeText = (text: string, atLineStart: boolean) => {
+  let escaped = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if ('\\`*[]<'.includes(char)) {
+      escaped += '\\' + char;
+    } else if (char === '_') {
+      // Keep snake_case readable; anything else could be taken for emphasis
+      const intraWord = isAlphanumeric(text[i - 1]) && isAlphanumeric(text[i + 1]);
+      escaped += intraWord ? char : '\\_';
+    } else {
+      escaped += char;
+    }
+  }
+  const blockMarker = atLineStart ? /^(\s*)(#|>|[-+] |~~~)/.exec(text) : null;
+  if (blockMarker) {
+    // Would otherwise read back as a heading, quote, list or fence
+    const indent = blockMarker[1].length;
+    escaped = escaped.slice(0, indent) + '\\' + escaped.slice(indent);
+  }
+  const numbered = atLineStart ? /^(\s*\d{1,9})([.)] )/.exec(escaped) : null;
+  if (numbered) escaped = numbered[1] + '\\' + escaped.slice(numbered[1].length);
+  return escaped;
+};
+
+const codeSpan = (text: string) => {
+  const longestFence = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longestFence + 1);
+  const padded = text.trim() && (/^[ `]/.test(text) || /[ `]$/.test(text)) ? ` ${text} ` : text;
+  return fence + padded + fence;
+};
+
+const runToMarkdown = (
+  run: RichTextRun,
+  base: CRDTAttributes,
+  atLineStart: boolean,
+  before: string | undefined,
+  after: string | undefined
+) => {
+  const attributes = run.attributes || {};
+  const text = run.text;
+  // Markers next to whitespace do not open/close, so such runs use HTML
+  const hasEdgeWhitespace = /^\s|\s$/.test(text);
+  let markdown = attributes.code ? codeSpan(text) : escapeText(text, atLineStart);
+
+  if (attributes.bold && !base.bold) {
+    markdown = hasEdgeWhitespace ? `<strong>${markdown}</strong>` : `**${markdown}**`;
+  }
+  if (attributes.italic && !base.italic) {
+    const wordBoundary = !isAlphanumeric(before) && !isAlphanumeric(after);
+    markdown = hasEdgeWhitespace || !wordBoundary ? `<em>${markdown}</em>` : `_${markdown}_`;
+  }
+  if (attributes.underline) markdown = `<u>${markdown}</u>`;
+
+  const style: string[] = [];
+  if (attributes.fontSize && attributes.fontSize !== base.fontSize) style.push(`font-size: ${attributes.fontSize}`);
+  if (attributes.fontFamily && attributes.fontFamily !== base.fontFamily) style.push(`font-family: ${attributes.fontFamily}`);
+  if (attributes.color) style.push(`color: ${attributes.color}`);
+  if (attributes.backgroundColor) style.push(`background-color: ${attributes.backgroundColor}`);
+  if (style.length > 0) markdown = `<span style="${encodeAttribute(style.join('; '))}">${markdown}</span>`;
+
+  if (attributes.link) {
+    const url = /[\s()<>\\]/.test(attributes.link) ? `<${attributes.link}>` : attributes.link;
+    markdown = `[${markdown}](${url})`;
+  }
+  return markdown;
+};
+
+const blockPrefix = (block: DocumentBlock) => {
+  const { block: type, indent = 0 } = block.attributes;
+  const leading = ' '.repeat(indent * LIST_INDENT);
+  if (isHeading(type)) return '#'.repeat(headingLevel(type)) + ' ';
+  if (type === 'bullet') return leading + '- ';
+  if (type === 'numbered') return `${leading}${block.number}. `;
+  if (type === 'quote') return '> ';
+  return '';
+};
+
+const blockToMarkdown = (block: DocumentBlock, chars: CRDTChar[]) => {
+  const runs = charsToRuns(chars.slice(block.start, block.end));
+  const text = runs.map(run => run.text).join('');
+  const prefix = blockPrefix(block);
+
+  let offset = 0;
+  const parts = runs.map((run, index) => {
+    const before = text[offset - 1];
+    const after = text[offset + run.text.length];
+    offset += run.text.length;
+    return runToMarkdown(run, DEFAULT_ATTRIBUTES, index === 0 && !prefix, before, after);
+  });
+  return prefix + parts.join('');
+};
+
+// Consecutive code blocks share one fence, longer than any backtick run
+// starting one of their lines
+const codeFence = (lines: string[]) => {
+  const longest = Math.max(2, ...lines.map(line => /^\s*(`*)/.exec(line)![1].length));
+  return '`'.repeat(longest + 1);
+};
+
+// True when charsToMarkdown would lose some block's alignment or indent
+export const markdownDropsLayout = (chars: CRDTChar[]): boolean =>
+  splitBlocks(chars).some(({ attributes }) => !!attributes.align || (!!attributes.indent && !isList(attributes.block)));
+
+export const charsToMarkdown = (chars: CRDTChar[]): string => {
+  const blocks = splitBlocks(chars);
+  const lines: string[] = [];
+
+  for (let i = 0; i < blocks.length; i++) {
+    if (blocks[i].attributes.block !== 'code') {
+      lines.push(blockToMarkdown(blocks[i], chars));
+      continue;
+    }
+    const code: string[] = [];
+    while (i < blocks.length && blocks[i].attributes.block === 'code') {
+      code.push(chars.slice(blocks[i].start, blocks[i].end).map(char => char.value).join(''));
+      i++;
+    }
+    i--;
+    const fence = codeFence(code);
+    lines.push(fence, ...code, fence);
+  }
+
+  // A document ending in a plain '\n' ends with an empty line
+  const last = blocks[blocks.length - 1];
+  if (last.terminator && Object.keys(last.attributes).length === 0) lines.push('');
+  return lines.join('\n') + '\n';
+};
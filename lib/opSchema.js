@@ -0,0 +1,241 @@
+// Runtime schema for the document and presence messages peers exchange
+// through the relay (every CRDTOperation variant plus the batch messages).
+// Plain JavaScript so server.js can import it without a build step; the
+// client imports the same file, so both ends agree on what a well-formed op
+// is.
+//
+// validateMessage(message) returns null for a message that may be applied,
+// or a short description of the first problem found. Message types the
+// schema does not cover (join, comments, history, ...) are left to their
+// own handlers and always pass.
+
+const MAX_ID_LENGTH = 64;
+const MAX_CHAR_LENGTH = 4; // one character, possibly a surrogate pair
+const MAX_POSITION_DEPTH = 64;
+export const MAX_BATCH_OPS = 200000;
+const MAX_DOCUMENT_CHARS = 1000000;
+const MAX_VECTOR_SITES = 10000;
+const MAX_INDENT = 8; // as in lib/blocks.ts
+
+const DOCUMENT_MESSAGE_TYPES = new Set(['insert', 'delete', 'format', 'batch-insert', 'batch-delete', 'batch-format']);
+const BLOCK_TYPES = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'bullet', 'numbered', 'quote', 'code']);
+const ALIGNMENTS = new Set(['left', 'center', 'right', 'justify']);
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (max) => (value) => typeof value === 'string' && value.length <= max;
+const isCount = (value) => Number.isSafeInteger(value) && value >= 0;
+// TIE in lib/crdt.ts
+const TIE = -1;
+
+// Checkers for each known attribute; anything else is rejected
+const ATTRIBUTES = {
+  bold: (value) => typeof value === 'boolean',
+  italic: (value) => typeof value === 'boolean',
+  underline: (value) => typeof value === 'boolean',
+  code: (value) => typeof value === 'boolean',
+  fontSize: isString(32),
+  fontFamily: isString(128),
+  link: isString(2048), // MAX_LINK_LENGTH in lib/links.ts
+  color: isString(32),
+  backgroundColor: isString(32),
+  suggestInsert: isString(MAX_ID_LENGTH),
+  suggestDelete: isString(MAX_ID_LENGTH),
+  block: (value) => BLOCK_TYPES.has(value),
+  align: (value) => ALIGNMENTS.has(value),
+  indent: (value) => Number.isInteger(value) && value >= 0 && value <= MAX_INDENT
+};
+
+// Keeps only the attributes the schema accepts, so content from outside the
+// editor (imports, pastes) cannot turn into an op the relay refuses
+export function validAttributes(attributes) {
+  const valid = {};
+  for (const [key, value] of Object.entries(attributes ?? {})) {
+    if (ATTRIBUTES[key]?.(value)) valid[key] = value;
+  }
+  return valid;
+}
+
+function checkSiteId(value, field = 'siteId') {
+  return typeof value === 'string' && value.length > 0 && value.length <= MAX_ID_LENGTH ? null : `${field} must be a non-empty string`;
+}
+
+// Positions are compared digit by digit, so anything but a short array of
+// non-negative integers (or TIE) would break the ordering on every replica
+function checkPosition(value, field = 'position') {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_POSITION_DEPTH) {
+    return `${field} must be a non-empty array of at most ${MAX_POSITION_DEPTH} digits`;
+  }
+  return value.every(digit => isCount(digit) || digit === TIE) ? null : `${field} digits must be non-negative integers or ${TIE}`;
+}
+
+// One siteId per TIE digit of the position
+function checkTies(position, value, field = 'ties') {
+  const count = position.filter(digit => digit === TIE).length;
+  const listed = value === undefined ? 0 : Array.isArray(value) ? value.length : -1;
+  if (listed !== count) return `${field} must name a site for each ${TIE} in the position`;
+  if (value === undefined) return null;
+  return value.every(site => !checkSiteId(site)) ? null : `${field} must hold siteIds`;
+}
+
+function checkOptional(value, check, message) {
+  return value === undefined || check(value) ? null : message;
+}
+
+// `patch` allows null, which clears an attribute
+function checkAttributes(value, { patch = false, field = 'attributes' } = {}) {
+  if (!isObject(value)) return `${field} must be an object`;
+  for (const [key, attr] of Object.entries(value)) {
+    const check = ATTRIBUTES[key];
+    if (!check) return `unknown attribute ${key}`;
+    if (attr === undefined || (patch && attr === null)) continue;
+    if (!check(attr)) return `invalid value for attribute ${key}`;
+  }
+  return null;
+}
+
+function checkStamps(value) {
+  if (!isObject(value)) return 'attributeStamps must be an object';
+  for (const [key, stamp] of Object.entries(value)) {
+    if (!ATTRIBUTES[key]) return `unknown attribute ${key} in attributeStamps`;
+    if (!isObject(stamp) || !isCount(stamp.clock) || checkSiteId(stamp.siteId)) return `invalid stamp for attribute ${key}`;
+  }
+  return null;
+}
+
+function checkCharId(value, field) {
+  if (!isObject(value)) return `${field} must be an object`;
+  return (
+    checkPosition(value.position, `${field}.position`) ||
+    checkTies(value.position, value.ties, `${field}.ties`) ||
+    checkSiteId(value.siteId, `${field}.siteId`)
+  );
+}
+
+function checkChar(value, field = 'char') {
+  if (!isObject(value)) return `${field} must be an object`;
+  if (typeof value.value !== 'string' || value.value.length === 0 || value.value.length > MAX_CHAR_LENGTH) {
+    return `${field}.value must be a single character`;
+  }
+  return (
+    checkCharId(value, field) ||
+    (value.attributes === undefined ? null : checkAttributes(value.attributes, { field: `${field}.attributes` })) ||
+    (value.attributeStamps === undefined ? null : checkStamps(value.attributeStamps)) ||
+    checkOptional(value.createdAt, Number.isFinite, `${field}.createdAt must be a number`)
+  );
+}
+
+function checkChars(value, field) {
+  if (!Array.isArray(value)) return `${field} must be an array`;
+  if (value.length > MAX_DOCUMENT_CHARS) return `${field} holds more than ${MAX_DOCUMENT_CHARS} chars`;
+  for (let i = 0; i < value.length; i++) {
+    const problem = checkChar(value[i], `${field}[${i}]`);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+function checkVector(value, field) {
+  if (!isObject(value)) return `${field} must be an object`;
+  const entries = Object.entries(value);
+  if (entries.length > MAX_VECTOR_SITES) return `${field} lists too many sites`;
+  return entries.every(([siteId, count]) => siteId.length <= MAX_ID_LENGTH && isCount(count)) ? null : `${field} must map siteIds to counts`;
+}
+
+function checkTombstone(value, field) {
+  if (!isObject(value)) return `${field} must be an object`;
+  // Tombstones name chars the way delete ops do, without their ties
+  return (
+    checkPosition(value.position, `${field}.position`) ||
+    checkSiteId(value.siteId, `${field}.siteId`) ||
+    checkSiteId(value.deletedBy, `${field}.deletedBy`) ||
+    (isCount(value.seq) ? null : `${field}.seq must be a count`) ||
+    (value.char === undefined ? null : checkChar(value.char, `${field}.char`))
+  );
+}
+
+// Fields shared by every document op; sub-ops of a batch take their stamp
+// from the batch, so only the batch itself needs one
+function checkStamp(message) {
+  return checkSiteId(message.siteId) || checkOptional(message.counter, (c) => Number.isSafeInteger(c) && c > 0, 'counter must be a positive integer');
+}
+
+const insertOp = (op) => checkChar(op.char);
+
+const deleteOp = (op) =>
+  checkPosition(op.position) ||
+  checkSiteId(op.siteId) ||
+  (op.deleterId === undefined ? null : checkSiteId(op.deleterId, 'deleterId')) ||
+  checkOptional(op.seq, isCount, 'seq must be a count');
+
+const formatOp = (op) =>
+  checkPosition(op.position) ||
+  checkSiteId(op.charSiteId, 'charSiteId') ||
+  checkAttributes(op.attributes, { patch: true }) ||
+  checkOptional(op.clock, isCount, 'clock must be a count');
+
+function checkBatch(message, subType, check) {
+  if (!Array.isArray(message.ops) || message.ops.length === 0) return 'ops must be a non-empty array';
+  if (message.ops.length > MAX_BATCH_OPS) return `ops holds more than ${MAX_BATCH_OPS} entries`;
+  for (let i = 0; i < message.ops.length; i++) {
+    const op = message.ops[i];
+    if (!isObject(op)) return `ops[${i}] must be an object`;
+    if (op.type !== undefined && op.type !== subType) return `ops[${i}] must be a ${subType}`;
+    // A delete's siteId names the deleted char and is checked with the rest
+    const problem = (subType !== 'delete' && op.siteId !== undefined ? checkSiteId(op.siteId) : null) || check(op);
+    if (problem) return `ops[${i}]: ${problem}`;
+  }
+  return null;
+}
+
+const SCHEMAS = {
+  insert: (m) => checkStamp(m) || insertOp(m),
+  delete: (m) => checkStamp(m) || deleteOp(m),
+  format: (m) => checkStamp(m) || formatOp(m),
+  'batch-insert': (m) => checkStamp(m) || checkBatch(m, 'insert', insertOp),
+  'batch-delete': (m) => checkStamp(m) || checkBatch(m, 'delete', deleteOp),
+  'batch-format': (m) => checkStamp(m) || checkBatch(m, 'format', formatOp),
+  cursor: (m) =>
+    checkSiteId(m.siteId) ||
+    (m.anchor === null ? null : checkCharId(m.anchor, 'anchor')) ||
+    (m.head === null ? null : checkCharId(m.head, 'head')) ||
+    (m.userId === undefined ? null : checkSiteId(m.userId, 'userId')) ||
+    (isString(MAX_ID_LENGTH)(m.name) ? null : 'name must be a string') ||
+    (isString(32)(m.color) ? null : 'color must be a string'),
+  'request-sync': (m) => checkSiteId(m.siteId) || (m.vector === undefined ? null : checkVector(m.vector, 'vector')),
+  'gc-ack': (m) => checkSiteId(m.siteId) || checkVector(m.seen, 'seen'),
+  'gc-collect': (m) => checkVector(m.seen, 'seen'),
+  'op-ack': (m) => checkSiteId(m.opSiteId, 'opSiteId') || (isCount(m.counter) ? null : 'counter must be a count'),
+  'sync-response': (m) => {
+    if (!Array.isArray(m.tombstones ?? [])) return 'tombstones must be an array';
+    const tombstones = m.tombstones ?? [];
+    for (let i = 0; i < tombstones.length; i++) {
+      const problem = checkTombstone(tombstones[i], `tombstones[${i}]`);
+      if (problem) return problem;
+    }
+    return (
+      checkChars(m.state, 'state') ||
+      (m.seenDeletes === undefined ? null : checkVector(m.seenDeletes, 'seenDeletes')) ||
+      (m.vector == null ? null : checkVector(m.vector, 'vector'))
+    );
+  },
+  'sync-delta': (m) => {
+    if (!Array.isArray(m.ops)) return 'ops must be an array';
+    for (let i = 0; i < m.ops.length; i++) {
+      const op = m.ops[i];
+      const problem = isObject(op) && DOCUMENT_MESSAGE_TYPES.has(op.type) ? validateMessage(op) : 'not a document op';
+      if (problem) return `ops[${i}]: ${problem}`;
+    }
+    return checkVector(m.vector, 'vector');
+  }
+};
+
+/**
+ * @param {unknown} message
+ * @returns {string | null}
+ */
+export function validateMessage(message) {
+  if (!isObject(message)) return 'message must be an object';
+  if (typeof message.type !== 'string') return 'type must be a string';
+  const schema = SCHEMAS[message.type];
+  return schema ? schema(message) : null;
+}
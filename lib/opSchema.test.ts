@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { validAttributes, validateMessage } from './opSchema.js';
+
+const char = { value: 'x', position: [3, 7], siteId: 'a', attributes: { bold: true, block: 'h1' }, createdAt: 1 };
+
+describe('validateMessage', () => {
+  it('accepts well-formed document ops', () => {
+    expect(validateMessage({ type: 'insert', char, siteId: 'a', counter: 1 })).toBeNull();
+    expect(validateMessage({ type: 'delete', position: [3], siteId: 'a', deleterId: 'b', seq: 1, counter: 2 })).toBeNull();
+    expect(validateMessage({ type: 'format', position: [3], charSiteId: 'a', attributes: { bold: null, indent: 2 }, siteId: 'b', clock: 4 })).toBeNull();
+    expect(validateMessage({ type: 'batch-insert', ops: [{ type: 'insert', char }], siteId: 'a', counter: 3 })).toBeNull();
+  });
+
+  it('rejects malformed positions, attributes and stamps', () => {
+    expect(validateMessage({ type: 'insert', char: { ...char, position: [] }, siteId: 'a' })).toMatch(/position/);
+    expect(validateMessage({ type: 'insert', char: { ...char, position: [1.5] }, siteId: 'a' })).toMatch(/digits/);
+    expect(validateMessage({ type: 'insert', char: { ...char, value: 'hello' }, siteId: 'a' })).toMatch(/single character/);
+    expect(validateMessage({ type: 'insert', char: { ...char, attributes: { onclick: 'x' } }, siteId: 'a' })).toBe('unknown attribute onclick');
+    expect(validateMessage({ type: 'format', position: [3], charSiteId: 'a', attributes: { indent: 99 }, siteId: 'b' })).toBe('invalid value for attribute indent');
+    expect(validateMessage({ type: 'insert', char, siteId: 'a', counter: 0 })).toMatch(/counter/);
+    expect(validateMessage({ type: 'insert', char, siteId: '' })).toMatch(/siteId/);
+  });
+
+  it('requires one tie site per TIE digit', () => {
+    const tied = { ...char, position: [5, -1, 3], ties: ['b'] };
+    expect(validateMessage({ type: 'insert', char: tied, siteId: 'a' })).toBeNull();
+    expect(validateMessage({ type: 'insert', char: { ...tied, ties: undefined }, siteId: 'a' })).toMatch(/ties/);
+    expect(validateMessage({ type: 'insert', char: { ...char, ties: ['b'] }, siteId: 'a' })).toMatch(/ties/);
+    expect(validateMessage({ type: 'insert', char: { ...tied, ties: [''] }, siteId: 'a' })).toMatch(/ties/);
+  });
+
+  it('points at the bad entry of a batch', () => {
+    expect(validateMessage({ type: 'batch-delete', ops: [{ position: [1], siteId: 'a' }, { position: 'x', siteId: 'a' }], siteId: 'a' })).toMatch(/^ops\[1\]/);
+    expect(validateMessage({ type: 'batch-format', ops: [], siteId: 'a' })).toMatch(/non-empty/);
+    expect(validateMessage({ type: 'batch-insert', ops: [{ type: 'delete', char }], siteId: 'a' })).toBe('ops[0] must be a insert');
+  });
+
+  it('checks presence and sync messages', () => {
+    expect(validateMessage({ type: 'cursor', siteId: 'a', anchor: null, head: { position: [1], siteId: 'b' }, name: 'Ada', color: '#fff' })).toBeNull();
+    expect(validateMessage({ type: 'cursor', siteId: 'a', anchor: null, head: null, name: 5, color: '#fff' })).toMatch(/name/);
+    expect(validateMessage({ type: 'request-sync', siteId: 'a', vector: { b: -1 } })).toMatch(/vector/);
+    expect(validateMessage({ type: 'gc-ack', siteId: 'a', seen: { b: 2 } })).toBeNull();
+    expect(validateMessage({ type: 'gc-collect', siteId: 'server', seen: { b: 'x' } })).toBe('seen must map siteIds to counts');
+    expect(validateMessage({ type: 'sync-delta', siteId: 'server', ops: [{ type: 'cursor' }], vector: {} })).toBe('ops[0]: not a document op');
+  });
+
+  it('leaves message types it does not cover to their handlers', () => {
+    expect(validateMessage({ type: 'comment-add', whatever: true })).toBeNull();
+    expect(validateMessage('insert')).toBe('message must be an object');
+    expect(validateMessage({ type: 7 })).toBe('type must be a string');
+  });
+});
+
+describe('validAttributes', () => {
+  it('keeps only the attributes the schema accepts', () => {
+    expect(validAttributes({ bold: true, color: 'x'.repeat(33), link: 'https://example.com', onclick: 'x', indent: 99 })).toEqual({
+      bold: true,
+      link: 'https://example.com'
+    });
+    expect(validAttributes(undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { CRDTAttributes, CRDTChar } from '../types';
+import { createPdf, MeasureText } from './pdfExport';
+
+// Every glyph half an em wide
+const measure: MeasureText = (text, _font, size) => text.length * size * 0.5;
+
+const toChars = (parts: [string, CRDTAttributes?][]): CRDTChar[] =>
+  parts.flatMap(([text, attributes]) => [...text].map(value => ({ value, attributes }))).map((char, i) => ({
+    ...char,
+    position: [i + 1],
+    siteId: 'a'
+  }));
+
+const render = (chars: CRDTChar[], pageSize: 'a4' | 'letter' = 'a4') => {
+  const bytes = createPdf(chars, pageSize, measure);
+  return String.fromCharCode(...bytes);
+};
+
+describe('createPdf', () => {
+  it('writes a PDF whose cross-reference table points at its objects', () => {
+    const pdf = render(toChars([['Hello (world)']]));
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf).toContain('(Hello \\(world\\)) Tj');
+
+    const xref = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+    expect(pdf.slice(xref, xref + 4)).toBe('xref');
+    const offsets = [...pdf.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+    offsets.forEach((offset, i) => expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+  });
+
+  it('uses the standard fonts for styled text and links the URLs', () => {
+    const pdf = render(toChars([['bold', { bold: true }], [' '], ['site', { link: 'https://example.com' }]]), 'letter');
+    expect(pdf).toContain('/BaseFont /Helvetica-Bold');
+    expect(pdf).toContain('/MediaBox [0 0 612 792]');
+    expect(pdf).toContain('/URI (https://example.com)');
+  });
+
+  it('breaks long documents into numbered pages', () => {
+    const paragraph = 'word '.repeat(400);
+    const pdf = render(toChars(Array.from({ length: 6 }, () => [paragraph + '\n'] as [string])));
+    const pages = Number(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/.exec(pdf)![1]);
+    expect(pages).toBeGreaterThan(1);
+    expect(pdf).toContain(`(${pages} / ${pages}) Tj`);
+  });
+});
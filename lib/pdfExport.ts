@@ -0,0 +1,359 @@
+import { BlockType, CRDTAttributes, CRDTChar } from '../types';
+import { DEFAULT_FONT_SIZE } from '../constants';
+import { RichTextBlock, charsToBlocks, isList, listMarker } from './blocks';
+import { normalizeLinkUrl } from './links';
+
+// Minimal PDF writer. Text uses the standard Type 1 fonts every viewer ships
+// (Helvetica, Times, Courier), so nothing has to be embedded and the file is
+// built entirely in the browser.
+
+export type PdfPageSize = 'a4' | 'letter';
+
+// Width of `text` in points at `size` points
+export type MeasureText = (text: string, font: PdfFont, size: number) => number;
+
+type PdfFont =
+  | 'Helvetica' | 'Helvetica-Bold' | 'Helvetica-Oblique' | 'Helvetica-BoldOblique'
+  | 'Times-Roman' | 'Times-Bold' | 'Times-Italic' | 'Times-BoldItalic'
+  | 'Courier' | 'Courier-Bold' | 'Courier-Oblique' | 'Courier-BoldOblique';
+
+const PAGE_SIZES: Record<PdfPageSize, { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+};
+
+const MARGIN = 72; // 1 inch
+const LINE_HEIGHT = 1.4;
+const FOOTER_SIZE = 9;
+const TAB = '    ';
+const LINK_COLOR = '0.31 0.27 0.9 rg';
+const CODE_BACKGROUND = '0.93 g';
+const QUOTE_BAR = '0.8 g';
+const QUOTE_COLOR = '0.4 g';
+// Horizontal space per indent level, for list markers and before quotes
+const INDENT_WIDTH = 36;
+const LIST_MARKER_WIDTH = 18;
+const QUOTE_PADDING = 12;
+
+// Characters of Windows-1252 outside Latin-1 and their codes
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// CSS stacks that are metric-compatible with the standard fonts
+const MEASURE_FAMILIES: Record<string, string> = {
+  Helvetica: 'Arial, Helvetica, sans-serif',
+  Times: '"Times New Roman", Times, serif',
+  Courier: '"Courier New", Courier, monospace',
+};
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const measureWithCanvas: MeasureText = (text, font, size) => {
+  if (!measureContext) measureContext = document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * size * 0.5;
+  const [family, variant = ''] = font.split('-');
+  const weight = variant.includes('Bold') ? 'bold ' : '';
+  const style = variant.includes('Italic') || variant.includes('Oblique') ? 'italic ' : '';
+  measureContext.font = `${style}${weight}${size}px ${MEASURE_FAMILIES[family]}`;
+  return measureContext.measureText(text).width;
+};
+
+const pdfFontFor = (attributes: CRDTAttributes = {}): PdfFont => {
+  const family = (attributes.fontFamily || '').toLowerCase();
+  const base = attributes.code || family.includes('mono')
+    ? 'Courier'
+    : family.includes('serif') && !family.includes('sans-serif')
+      ? 'Times'
+      : 'Helvetica';
+  const bold = !!attributes.bold;
+  const italic = !!attributes.italic;
+  if (base === 'Times') {
+    if (bold && italic) return 'Times-BoldItalic';
+    if (bold) return 'Times-Bold';
+    return italic ? 'Times-Italic' : 'Times-Roman';
+  }
+  if (bold && italic) return `${base}-BoldOblique`;
+  if (bold) return `${base}-Bold`;
+  return italic ? `${base}-Oblique` : base;
+};
+
+// CSS px -> points
+const fontSizeInPoints = (fontSize: string | undefined) => {
+  const px = parseFloat(fontSize || DEFAULT_FONT_SIZE);
+  return (isNaN(px) ? parseFloat(DEFAULT_FONT_SIZE) : px) * 0.75;
+};
+
+// Encodes text as a PDF literal string in WinAnsiEncoding; anything the
+// standard fonts cannot show becomes '?'
+const pdfString = (text: string) => {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    let byte: number;
+    if (char.length === 1 && ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff))) {
+      byte = code;
+    } else {
+      byte = WIN_ANSI_EXTRAS[char] ?? 0x3f;
+    }
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) encoded += '\\';
+    encoded += String.fromCharCode(byte);
+  }
+  return `(${encoded})`;
+};
+
+const formatNumber = (value: number) => (Math.round(value * 100) / 100).toString();
+
+// '#rrggbb' -> PDF fill colour operator, or null if it is not a hex colour
+const rgbColor = (hex: string) => {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) return null;
+  return `${match.slice(1).map(part => formatNumber(parseInt(part, 16) / 255)).join(' ')} rg`;
+};
+
+interface Fragment {
+  text: string;
+  attributes: CRDTAttributes;
+  font: PdfFont;
+  size: number;
+  width: number;
+  x: number;
+}
+
+interface Line {
+  fragments: Fragment[];
+  size: number;
+  // Set per block once the paragraph is wrapped: where the line starts
+  // within the text area, the list marker of its first line and the block type
+  x?: number;
+  marker?: string;
+  block?: BlockType;
+}
+
+interface PlacedLine extends Line {
+  baseline: number;
+}
+
+// Greedy word wrap of one paragraph into lines that fit `maxWidth`
+const wrapParagraph = (
+  runs: { text: string; attributes?: CRDTAttributes }[],
+  maxWidth: number,
+  measure: MeasureText
+): Line[] => {
+  const lines: Line[] = [];
+  let current: Fragment[] = [];
+  let x = 0;
+
+  const pushLine = () => {
+    // Trailing spaces do not count toward the width of a wrapped line
+    const last = current[current.length - 1];
+    if (last) {
+      const trimmed = last.text.trimEnd();
+      last.width = measure(trimmed, last.font, last.size);
+      last.text = trimmed;
+      if (!trimmed) current.pop();
+    }
+    const size = current.length > 0 ? Math.max(...current.map(fragment => fragment.size)) : fontSizeInPoints(undefined);
+    lines.push({ fragments: current, size });
+    current = [];
+    x = 0;
+  };
+
+  const place = (text: string, attributes: CRDTAttributes, font: PdfFont, size: number) => {
+    const width = measure(text, font, size);
+    const last = current[current.length - 1];
+    // Words of the same run on the same line are drawn as one string
+    if (last && last.attributes === attributes) {
+      last.text += text;
+      last.width += width;
+    } else {
+      current.push({ text, attributes, font, size, width, x });
+    }
+    x += width;
+  };
+
+  runs.forEach(run => {
+    const attributes = run.attributes || {};
+    const font = pdfFontFor(attributes);
+    const size = fontSizeInPoints(attributes.fontSize);
+    run.text.replace(/\t/g, TAB).split(/(\s+)/).forEach(piece => {
+      if (!piece) return;
+      const width = measure(piece, font, size);
+      if (!piece.trim()) {
+        // Spaces at the start of a wrapped line are dropped
+        if (x > 0 || lines.length === 0) place(piece, attributes, font, size);
+        return;
+      }
+      if (x + width > maxWidth && x > 0) pushLine();
+      if (width <= maxWidth) {
+        place(piece, attributes, font, size);
+        return;
+      }
+      // A single word wider than the page is broken between characters
+      let chunk = '';
+      for (const char of piece) {
+        if (x + measure(chunk + char, font, size) > maxWidth && chunk) {
+          place(chunk, attributes, font, size);
+          pushLine();
+          chunk = '';
+        }
+        chunk += char;
+      }
+      if (chunk) place(chunk, attributes, font, size);
+    });
+  });
+  pushLine();
+  return lines;
+};
+
+// Wraps a block within its indent and positions its lines for the block's
+// alignment; justified text is set flush left
+const layoutBlock = (block: RichTextBlock, textWidth: number, measure: MeasureText): Line[] => {
+  const { block: type, align, indent = 0 } = block.attributes;
+  let left = indent * INDENT_WIDTH;
+  if (isList(type)) left += LIST_MARKER_WIDTH;
+  if (type === 'quote') left += QUOTE_PADDING;
+  const maxWidth = Math.max(textWidth - left, INDENT_WIDTH);
+
+  const lines = wrapParagraph(block.runs, maxWidth, measure);
+  lines.forEach((line, index) => {
+    const last = line.fragments[line.fragments.length - 1];
+    const width = last ? last.x + last.width : 0;
+    const slack = maxWidth - width;
+    line.x = left + (align === 'center' ? slack / 2 : align === 'right' ? slack : 0);
+    line.block = type;
+    if (index === 0) line.marker = listMarker(block) || undefined;
+  });
+  return lines;
+};
+
+const paginate = (lines: Line[], pageHeight: number): PlacedLine[][] => {
+  const pages: PlacedLine[][] = [[]];
+  let top = MARGIN;
+  lines.forEach(line => {
+    const height = line.size * LINE_HEIGHT;
+    if (top + height > pageHeight - MARGIN && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      top = MARGIN;
+    }
+    pages[pages.length - 1].push({ ...line, baseline: top + line.size * 1.1 });
+    top += height;
+  });
+  return pages;
+};
+
+const pageContent = (
+  lines: PlacedLine[],
+  pageNumber: number,
+  pageCount: number,
+  pageHeight: number,
+  pageWidth: number,
+  fontNames: Map<PdfFont, string>,
+  measure: MeasureText
+) => {
+  const ops: string[] = [];
+  const links: { rect: number[]; url: string }[] = [];
+
+  lines.forEach(line => {
+    const y = pageHeight - line.baseline;
+    const left = MARGIN + (line.x || 0);
+    if (line.block === 'code') {
+      ops.push(`${CODE_BACKGROUND} ${formatNumber(left)} ${formatNumber(y - line.size * 0.4)} ${formatNumber(pageWidth - MARGIN - left)} ${formatNumber(line.size * LINE_HEIGHT)} re f 0 g`);
+    } else if (line.block === 'quote') {
+      const barX = left - QUOTE_PADDING;
+      ops.push(`${QUOTE_BAR} ${formatNumber(barX)} ${formatNumber(y - line.size * 0.4)} 3 ${formatNumber(line.size * LINE_HEIGHT)} re f 0 g`);
+    }
+    if (line.marker) {
+      const markerWidth = measure(line.marker, 'Helvetica', line.size);
+      ops.push(`BT /${fontNames.get('Helvetica')} ${formatNumber(line.size)} Tf ${formatNumber(left - markerWidth - 6)} ${formatNumber(y)} Td ${pdfString(line.marker)} Tj ET`);
+    }
+    line.fragments.forEach(fragment => {
+      const x = left + fragment.x;
+      const { attributes, size, width } = fragment;
+      const background = attributes.backgroundColor ? rgbColor(attributes.backgroundColor) : null;
+      if (background || (attributes.code && line.block !== 'code')) {
+        ops.push(`${background ?? CODE_BACKGROUND} ${formatNumber(x)} ${formatNumber(y - size * 0.25)} ${formatNumber(width)} ${formatNumber(size * 1.1)} re f 0 g`);
+      }
+      const fill = (attributes.color && rgbColor(attributes.color)) || (attributes.link ? LINK_COLOR : line.block === 'quote' ? QUOTE_COLOR : null);
+      const color = fill ? `${fill} ` : '';
+      ops.push(`BT ${color}/${fontNames.get(fragment.font)} ${formatNumber(size)} Tf ${formatNumber(x)} ${formatNumber(y)} Td ${pdfString(fragment.text)} Tj ET${color ? ' 0 g' : ''}`);
+      if (attributes.underline || attributes.link) {
+        // Stroke in the text colour; 'rg' -> 'RG' and 'g' -> 'G' switch fill to stroke
+        ops.push(`${fill ? fill.toUpperCase() : '0 G'} ${formatNumber(size * 0.05)} w ${formatNumber(x)} ${formatNumber(y - size * 0.12)} m ${formatNumber(x + width)} ${formatNumber(y - size * 0.12)} l S 0 G`);
+      }
+      const url = attributes.link ? normalizeLinkUrl(attributes.link) : null;
+      if (url) {
+        links.push({ rect: [x, y - size * 0.25, x + width, y + size * 0.85], url });
+      }
+    });
+  });
+
+  const footer = `${pageNumber} / ${pageCount}`;
+  const footerWidth = measure(footer, 'Helvetica', FOOTER_SIZE);
+  ops.push(`BT 0.4 g /${fontNames.get('Helvetica')} ${FOOTER_SIZE} Tf ${formatNumber((pageWidth - footerWidth) / 2)} ${formatNumber(MARGIN / 2)} Td ${pdfString(footer)} Tj ET 0 g`);
+
+  return { content: ops.join('\n'), links };
+};
+
+// Lays the document out on A4 or Letter pages with 1 inch margins and page
+// numbers, and returns the bytes of the PDF file
+export const createPdf = (chars: CRDTChar[], pageSize: PdfPageSize, measure: MeasureText = measureWithCanvas): Uint8Array => {
+  const { width: pageWidth, height: pageHeight } = PAGE_SIZES[pageSize];
+  const lines = charsToBlocks(chars).flatMap(block => layoutBlock(block, pageWidth - MARGIN * 2, measure));
+  const pages = paginate(lines, pageHeight);
+
+  // Fonts get resource names in order of first use; the footer always needs Helvetica
+  const fontNames = new Map<PdfFont, string>([['Helvetica', 'F1']]);
+  lines.forEach(line => line.fragments.forEach(fragment => {
+    if (!fontNames.has(fragment.font)) fontNames.set(fragment.font, `F${fontNames.size + 1}`);
+  }));
+
+  // Object numbers: 1 catalog, 2 page tree, then fonts, then per page its
+  // page object, content stream and link annotations
+  const objects: string[] = [];
+  const addObject = (body: string) => {
+    objects.push(body);
+    return objects.length;
+  };
+  addObject('<< /Type /Catalog /Pages 2 0 R >>');
+  addObject(''); // page tree, filled in once the page ids are known
+
+  const fontRefs: string[] = [];
+  fontNames.forEach((name, font) => {
+    const id = addObject(`<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`);
+    fontRefs.push(`/${name} ${id} 0 R`);
+  });
+
+  const pageIds: number[] = [];
+  pages.forEach((lines, index) => {
+    const { content, links } = pageContent(lines, index + 1, pages.length, pageHeight, pageWidth, fontNames, measure);
+    const contentId = addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    const annotIds = links.map(link =>
+      addObject(`<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(formatNumber).join(' ')}] /Border [0 0 0] /A << /Type /Action /S /URI /URI ${pdfString(link.url)} >> >>`)
+    );
+    const annots = annotIds.length > 0 ? ` /Annots [${annotIds.map(id => `${id} 0 R`).join(' ')}]` : '';
+    pageIds.push(addObject(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /Font << ${fontRefs.join(' ')} >> >> /Contents ${contentId} 0 R${annots} >>`
+    ));
+  });
+  objects[1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  // Every string above holds one byte per character, so lengths are offsets
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets = objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(output.length);
+  for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i);
+  return bytes;
+};
@@ -0,0 +1,43 @@
+import { CRDTAttributes, CRDTChar, RichTextRun } from '../types';
+import { FONT_FAMILIES, FONT_SIZES } from '../constants';
+
+export const sameAttributes = (a: CRDTAttributes = {}, b: CRDTAttributes = {}) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof CRDTAttributes>;
+  for (const key of keys) {
+    if (a[key] !== b[key]) return false;
+  }
+  return true;
+};
+
+// Groups consecutive characters with identical attributes into runs
+export const charsToRuns = (chars: CRDTChar[]): RichTextRun[] => {
+  const runs: RichTextRun[] = [];
+  chars.forEach(char => {
+    const last = runs[runs.length - 1];
+    if (last && sameAttributes(last.attributes, char.attributes)) {
+      last.text += char.value;
+    } else {
+      runs.push({ text: char.value, attributes: char.attributes });
+    }
+  });
+  return runs;
+};
+
+// Imported sizes snap to the closest size the toolbar offers
+export const nearestFontSize = (px: number) =>
+  FONT_SIZES.reduce((best, size) =>
+    Math.abs(parseFloat(size) - px) < Math.abs(parseFloat(best) - px) ? size : best
+  );
+
+// Imported fonts map onto the toolbar's families: our own values as they
+// are, anything else by its name
+export const fontFamilyIndex = (font: string) => {
+  const exact = FONT_FAMILIES.findIndex(family => family.value === font);
+  if (exact >= 0) return exact;
+  const name = font.toLowerCase();
+  if (name.includes('times')) return 2;
+  if (name.includes('arial') || name.includes('helvetica')) return 3;
+  if (name.includes('courier') || name.includes('consolas') || name.includes('mono')) return 4;
+  if (name.includes('georgia') || name.includes('garamond') || name.includes('cambria') || name.includes('serif')) return 1;
+  return 0;
+};
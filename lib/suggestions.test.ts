@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { CRDTChar } from '../types';
+import { newSuggestionId, suggestionAt, suggestionChars } from './suggestions';
+
+const chars: CRDTChar[] = [
+  { value: 'a', position: [1], siteId: 'bob' },
+  { value: 'b', position: [2], siteId: 'bob', attributes: { suggestInsert: 's1' } },
+  { value: 'c', position: [3], siteId: 'bob', attributes: { suggestInsert: 's1' } },
+  {
+    value: 'd',
+    position: [4],
+    siteId: 'bob',
+    attributes: { suggestInsert: 's1', suggestDelete: 's2' },
+    attributeStamps: { suggestDelete: { clock: 1, siteId: 'ada' } }
+  }
+];
+
+describe('suggestions', () => {
+  it('finds the suggestion under the caret, preferring deletes', () => {
+    expect(suggestionAt(chars, 1)).toEqual({ id: 's1', type: 'insert', author: 'bob' });
+    expect(suggestionAt(chars, 3)).toEqual({ id: 's2', type: 'delete', author: 'ada' });
+    expect(suggestionAt(chars, 0)).toBeNull();
+  });
+
+  it('collects the chars of one suggestion', () => {
+    expect(suggestionChars(chars, { id: 's1', type: 'insert' }).map(c => c.value)).toEqual(['b', 'c', 'd']);
+    expect(suggestionChars(chars, { id: 's2', type: 'delete' }).map(c => c.value)).toEqual(['d']);
+  });
+
+  it('prefixes new ids with the site', () => {
+    expect(newSuggestionId('bob')).toMatch(/^bob-\w+$/);
+    expect(newSuggestionId('bob')).not.toBe(newSuggestionId('bob'));
+  });
+});
@@ -0,0 +1,46 @@
+import { CRDTAttributes, CRDTChar, SuggestionType } from '../types';
+
+// A suggestion is the set of chars carrying the same suggestInsert or
+// suggestDelete id. Accepting or rejecting it is an ordinary delete or
+// format of those chars, so the decision reaches everyone like any edit:
+//
+//   insert  accept: clear suggestInsert   reject: delete the chars
+//   delete  accept: delete the chars      reject: clear suggestDelete
+
+export const SUGGESTION_KEYS: Record<SuggestionType, keyof CRDTAttributes> = {
+  insert: 'suggestInsert',
+  delete: 'suggestDelete'
+};
+
+export interface Suggestion {
+  id: string;
+  type: SuggestionType;
+  author: string;
+}
+
+export const newSuggestionId = (siteId: string) =>
+  `${siteId}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const suggestionIdOf = (char: CRDTChar | undefined, type: SuggestionType): string | undefined =>
+  char?.attributes?.[SUGGESTION_KEYS[type]] as string | undefined;
+
+// Inserted text belongs to the site that typed it; a proposed delete to
+// the site that marked the char
+export const suggestionAuthor = (char: CRDTChar, type: SuggestionType): string =>
+  type === 'insert' ? char.siteId : char.attributeStamps?.suggestDelete?.siteId ?? char.siteId;
+
+// The suggestion under caret position `index`, preferring the char after
+// the caret; deletes win over inserts on a char that has both
+export const suggestionAt = (chars: CRDTChar[], index: number): Suggestion | null => {
+  for (const char of [chars[index], chars[index - 1]]) {
+    if (!char) continue;
+    for (const type of ['delete', 'insert'] as SuggestionType[]) {
+      const id = suggestionIdOf(char, type);
+      if (id) return { id, type, author: suggestionAuthor(char, type) };
+    }
+  }
+  return null;
+};
+
+export const suggestionChars = (chars: CRDTChar[], suggestion: Pick<Suggestion, 'id' | 'type'>) =>
+  chars.filter(char => suggestionIdOf(char, suggestion.type) === suggestion.id);
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+describe('createZip', () => {
+  it('writes stored entries with their CRC and a central directory', () => {
+    const data = new TextEncoder().encode('hello');
+    const zip = createZip([{ name: 'a.txt', data }], new Date(2024, 0, 2, 3, 4, 6));
+    const view = new DataView(zip.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(0x3610a686);
+    expect(view.getUint32(18, true)).toBe(5);
+    expect(new TextDecoder().decode(zip.slice(30, 35))).toBe('a.txt');
+    expect(new TextDecoder().decode(zip.slice(35, 40))).toBe('hello');
+
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(1);
+    expect(view.getUint32(view.getUint32(end + 16, true), true)).toBe(0x02014b50);
+  });
+});
@@ -0,0 +1,40 @@
+// Measures how long LSEQ identifiers grow under common typing patterns.
+// Run with `npm run bench:lseq`.
+import { LSEQ } from '../lib/crdt';
+
+const SIZES = [1000, 10000, 50000];
+
+type Pattern = 'sequential' | 'reverse' | 'random';
+
+const nextIndex = (pattern: Pattern, length: number) => {
+  if (pattern === 'sequential') return length;
+  if (pattern === 'reverse') return 0;
+  return Math.floor(Math.random() * (length + 1));
+};
+
+const run = (pattern: Pattern, size: number) => {
+  const doc = new LSEQ('bench');
+  const started = performance.now();
+  for (let i = 0; i < size; i++) {
+    doc.localInsert(nextIndex(pattern, i), 'x');
+  }
+  const elapsed = performance.now() - started;
+
+  const lengths = doc.rawChars.map(c => c.position.length);
+  const total = lengths.reduce((sum, len) => sum + len, 0);
+  return {
+    pattern,
+    chars: size,
+    'avg length': +(total / size).toFixed(2),
+    'max length': Math.max(...lengths),
+    'ms': Math.round(elapsed)
+  };
+};
+
+const rows = [];
+for (const size of SIZES) {
+  for (const pattern of ['sequential', 'reverse', 'random'] as Pattern[]) {
+    rows.push(run(pattern, size));
+  }
+}
+console.table(rows);
@@ -0,0 +1,24 @@
+// Prints a share token (and a link using it) for a room:
+//
+//   npm run token -- <room> [owner|editor|commenter|viewer] [--days <n>]
+//
+// Run it on the relay's machine: tokens are signed with its local secret.
+import { ROLES, signToken } from '../server/auth.js';
+
+const args = process.argv.slice(2);
+const daysAt = args.indexOf('--days');
+const days = daysAt === -1 ? null : Number(args.splice(daysAt, 2)[1]);
+const [rawRoom, role = 'owner'] = args;
+const room = (rawRoom || '').trim().replace(/[^a-zA-Z0-9_-]/g, '').slice(0, 64);
+
+if (!room || !ROLES.includes(role) || (days !== null && !(days > 0))) {
+  console.error(`Usage: npm run token -- <room> [${ROLES.slice().reverse().join('|')}] [--days <n>]`);
+  process.exit(1);
+}
+
+const token = signToken({ room, role, expiresIn: days ? days * 24 * 60 * 60 * 1000 : null });
+const appUrl = new URL(process.env.VITE_PUBLIC_URL || 'http://localhost:3000');
+appUrl.searchParams.set('room', room);
+appUrl.searchParams.set('token', token);
+
+console.log(`${role} token for room "${room}"${days ? `, valid for ${days} day(s)` : ''}:\n\n${token}\n\n${appUrl}`);
@@ -1,30 +1,386 @@
 import { WebSocketServer } from 'ws';
+import { RoomDocument, DOCUMENT_OP_TYPES, commonVector, dominates } from './server/roomDocument.js';
+import { ROLES, canSend, signToken, verifyToken } from './server/auth.js';
+import { validateMessage } from './lib/opSchema.js';
+import {
+  loadRoom,
+  appendOp,
+  writeSnapshot,
+  listVersions,
+  saveVersion,
+  loadVersion,
+  loadAuthors,
+  saveAuthors,
+  loadComments,
+  saveComments
+} from './server/documentStore.js';
 
-const wss = new WebSocketServer({ port: 8080 });
+const PORT = Number(process.env.COLLAB_PORT) || 8080;
 
-console.log('WebSocket server started on port 8080');
+// Connections must present a share token (?token=...) at the upgrade; the
+// room and role it grants are kept on the request for the connection handler
+const wss = new WebSocketServer({
+  port: PORT,
+  verifyClient(info, done) {
+    const token = new URL(info.req.url, 'http://relay').searchParams.get('token');
+    const grant = verifyToken(token);
+    // Browsers cannot read the status of a refused upgrade, so a bad token
+    // gets a socket that is closed right away with 4401 instead
+    info.req.grant = grant;
+    done(true);
+  }
+});
+
+console.log(`WebSocket server started on port ${PORT}`);
+
+const DEFAULT_ROOM = 'shared-collaborative-doc';
 
+// ws -> { room, user, role }
 const clients = new Map();
+// room name -> Set<ws>
+const rooms = new Map();
+// room name -> {
+//   doc: RoomDocument,
+//   log: ops applied since the last snapshot (what delta syncs are served from),
+//   snapshotVector: doc.vector at the last snapshot (null if unknown),
+//   dirty: whether anything changed since the last snapshot,
+//   changedSinceVersion: whether anything changed since the last history version,
+//   authors: { [siteId]: { id, userId, name, color } } of everyone who has joined,
+//   comments: comment threads anchored to char identities,
+//   acks: { [siteId]: DeleteVector } last acknowledged by each site (gc-ack),
+//   lastSeen: { [siteId]: ms } when each site last joined or left
+// }
+const documents = new Map();
+
+// Fold the op log into a fresh snapshot after this many ops
+const COMPACT_EVERY = 500;
+// Record an automatic history version of every changed room this often
+const AUTO_VERSION_INTERVAL = 10 * 60 * 1000;
+const COMMENT_MESSAGE_TYPES = new Set(['comment-add', 'comment-reply', 'comment-resolve']);
+const MAX_COMMENT_LENGTH = 2000;
+const MAX_QUOTE_LENGTH = 200;
+const DAY = 24 * 60 * 60 * 1000;
+// Messages a site sends as itself; their siteId must be the one its socket joined with
+const SITE_MESSAGE_TYPES = new Set([...DOCUMENT_OP_TYPES, 'cursor', 'gc-ack', 'profile']);
+// Sockets that miss a ping for this long are dropped, so a client whose
+// connection died without a close can rejoin under its siteId
+const HEARTBEAT_INTERVAL = 30 * 1000;
+// A site gone this long no longer holds back tombstone collection; it is
+// taken to have seen every delete and gets the full state if it comes back
+const SILENT_SITE_TIMEOUT = Number(process.env.COLLAB_SILENT_SITE_TIMEOUT) || 7 * DAY;
+
+function normalizeRoom(room) {
+  if (typeof room !== 'string') return DEFAULT_ROOM;
+  const cleaned = room.trim().replace(/[^a-zA-Z0-9_-]/g, '').slice(0, 64);
+  return cleaned || DEFAULT_ROOM;
+}
 
-function broadcastUserList() {
-  const users = Array.from(clients.values()).filter(u => u);
-  const message = JSON.stringify({ type: 'user-list', users });
-  wss.clients.forEach(client => {
-    if (client.readyState === 1) {
-      client.send(message);
+function sendToRoom(room, data, options, except) {
+  const members = rooms.get(room);
+  if (!members) return;
+  members.forEach(client => {
+    if (client !== except && client.readyState === 1) { // 1 = OPEN
+      client.send(data, options);
     }
   });
 }
 
-wss.on('connection', function connection(ws) {
-  ws.on('error', console.error);
+function openDocument(room) {
+  let entry = documents.get(room);
+  if (!entry) {
+    const { state, tombstones, seenDeletes, vector, acks, lastSeen, ops } = loadRoom(room);
+    const doc = new RoomDocument(state, tombstones, seenDeletes, vector || {});
+    const log = ops.filter(op => doc.apply(op));
+    // Sites from before liveness was recorded get the full timeout from now
+    const now = Date.now();
+    Object.keys(doc.vector).forEach(site => { lastSeen[site] ??= now; });
+    entry = { doc, log, snapshotVector: vector && { ...vector }, dirty: log.length > 0, changedSinceVersion: log.length > 0, authors: loadAuthors(room), comments: loadComments(room), acks, lastSeen };
+    documents.set(room, entry);
+  }
+  return entry;
+}
 
-  ws.on('close', () => {
-    if (clients.has(ws)) {
-      clients.delete(ws);
-      broadcastUserList();
-    }
+function compactDocument(room) {
+  const entry = documents.get(room);
+  if (!entry || !entry.dirty) return;
+  try {
+    const { doc } = entry;
+    writeSnapshot(room, {
+      state: doc.state,
+      tombstones: doc.tombstoneState,
+      seenDeletes: doc.seenDeletes,
+      vector: doc.vector,
+      acks: entry.acks,
+      lastSeen: entry.lastSeen
+    });
+    entry.log = [];
+    entry.snapshotVector = { ...doc.vector };
+    entry.dirty = false;
+  } catch (err) {
+    console.error(`Failed to write snapshot for room ${room}`, err);
+  }
+}
+
+// Returns false when the op was a duplicate (already applied) and must not be relayed
+function recordOp(room, op) {
+  const entry = openDocument(room);
+  if (!entry.doc.apply(op)) return false;
+  try {
+    appendOp(room, op);
+  } catch (err) {
+    console.error(`Failed to append op for room ${room}`, err);
+  }
+  entry.log.push(op);
+  entry.dirty = true;
+  entry.changedSinceVersion = true;
+  if (entry.log.length >= COMPACT_EVERY) compactDocument(room);
+  return true;
+}
+
+// Remembers the name and colour a site edits under
+// Only the fields clients render are kept from what a client says about
+// itself: its siteId, the userId shared by its person's tabs, name and colour
+function cleanUser(user) {
+  if (!user || typeof user.id !== 'string') return null;
+  return {
+    id: user.id.slice(0, 64),
+    userId: typeof user.userId === 'string' ? user.userId.slice(0, 64) : undefined,
+    name: typeof user.name === 'string' ? user.name.trim().slice(0, 64) : '',
+    color: typeof user.color === 'string' ? user.color.slice(0, 32) : ''
+  };
+}
+
+function recordAuthor(room, author) {
+  const entry = openDocument(room);
+  const known = entry.authors[author.id];
+  if (known && known.userId === author.userId && known.name === author.name && known.color === author.color) return;
+  entry.authors[author.id] = author;
+  try {
+    saveAuthors(room, entry.authors);
+  } catch (err) {
+    console.error(`Failed to save authors for room ${room}`, err);
+  }
+}
+
+// Saves the room's current text as a history version and tells the room
+function recordVersion(room, { name = null, auto = false, createdBy = null } = {}) {
+  const entry = openDocument(room);
+  try {
+    const meta = saveVersion(room, { state: entry.doc.state, name, auto, createdBy });
+    entry.changedSinceVersion = false;
+    sendToRoom(room, JSON.stringify({ type: 'history-list', siteId: 'server', versions: listVersions(room) }));
+    return meta;
+  } catch (err) {
+    console.error(`Failed to save a version of room ${room}`, err);
+    return null;
+  }
+}
+
+function cleanVersionName(name) {
+  if (typeof name !== 'string') return null;
+  return name.trim().slice(0, 80) || null;
+}
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isCharId = (id) => !!id && typeof id.siteId === 'string' && Array.isArray(id.position) &&
+  id.position.every(n => typeof n === 'number');
+
+function cleanCommentText(text) {
+  return typeof text === 'string' ? text.trim().slice(0, MAX_COMMENT_LENGTH) : '';
+}
+
+function commentMessage(session, text) {
+  return {
+    id: newId(),
+    author: session.user.id,
+    authorName: typeof session.user.name === 'string' ? session.user.name : '',
+    text,
+    createdAt: Date.now()
+  };
+}
+
+// Applies comment-add/-reply/-resolve from a client. Returns false for
+// malformed requests, which are dropped.
+function applyComment(room, session, msg) {
+  const entry = openDocument(room);
+  const thread = entry.comments.find(t => t.id === msg.threadId);
+  if (msg.type === 'comment-add') {
+    const text = cleanCommentText(msg.text);
+    if (!text || !msg.anchor || !isCharId(msg.anchor.start) || !isCharId(msg.anchor.end)) return false;
+    entry.comments.push({
+      id: newId(),
+      anchor: { start: msg.anchor.start, end: msg.anchor.end },
+      quote: typeof msg.quote === 'string' ? msg.quote.slice(0, MAX_QUOTE_LENGTH) : '',
+      messages: [commentMessage(session, text)],
+      resolved: false,
+      createdAt: Date.now()
+    });
+  } else if (msg.type === 'comment-reply') {
+    const text = cleanCommentText(msg.text);
+    if (!thread || !text) return false;
+    thread.messages.push(commentMessage(session, text));
+  } else if (msg.type === 'comment-resolve') {
+    if (!thread) return false;
+    thread.resolved = msg.resolved === true;
+  } else {
+    return false;
+  }
+  try {
+    saveComments(room, entry.comments);
+  } catch (err) {
+    console.error(`Failed to save comments for room ${room}`, err);
+  }
+  return true;
+}
+
+function sendComments(target, room) {
+  const data = JSON.stringify({ type: 'comment-list', siteId: 'server', threads: openDocument(room).comments });
+  if (target) target.send(data);
+  else sendToRoom(room, data);
+}
+
+// Answers request-sync with only the ops the client is missing when our op
+// log reaches back far enough, and with the full state otherwise
+function answerSync(ws, room, clientVector) {
+  const { doc, log, snapshotVector } = openDocument(room);
+  const vector = clientVector && typeof clientVector === 'object' ? clientVector : null;
+
+  if (vector && snapshotVector && dominates(vector, snapshotVector)) {
+    const ops = log.filter(op =>
+      typeof op.counter !== 'number' || op.counter > (vector[op.siteId] ?? 0)
+    );
+    ws.send(JSON.stringify({ type: 'sync-delta', siteId: 'server', ops, vector: doc.vector }));
+    return;
+  }
+
+  ws.send(JSON.stringify({
+    type: 'sync-response',
+    siteId: 'server',
+    state: doc.state,
+    tombstones: doc.tombstoneState,
+    seenDeletes: doc.seenDeletes,
+    vector: doc.vector
+  }));
+}
+
+// Notes that a site joined or left the room now
+function touchSite(room, siteId) {
+  const entry = openDocument(room);
+  entry.lastSeen[siteId] = Date.now();
+  entry.dirty = true;
+}
+
+// Whether a site has been away from the room longer than SILENT_SITE_TIMEOUT
+function isSilent(room, siteId) {
+  const { lastSeen } = openDocument(room);
+  return siteId in lastSeen && Date.now() - lastSeen[siteId] > SILENT_SITE_TIMEOUT && !siteInUse(room, siteId);
+}
+
+// Records which deletes a site has seen. A tombstone can go once every site
+// that has ever written to the room (and everyone connected) has seen its
+// delete, except sites that have been silent for SILENT_SITE_TIMEOUT: a
+// site that left early holds on to every tombstone since only until then.
+// The sender is told what every such site has seen, so it can drop the same
+// tombstones.
+function acknowledgeDeletes(ws, room, siteId, seen) {
+  const entry = openDocument(room);
+  const previous = entry.acks[siteId] || {};
+  const merged = { ...previous };
+  Object.keys(seen).forEach(site => {
+    if ((merged[site] ?? 0) < seen[site]) merged[site] = seen[site];
+  });
+  if (Object.keys(merged).some(site => merged[site] !== previous[site])) {
+    entry.acks[siteId] = merged;
+    entry.dirty = true;
+  }
+
+  const sites = new Set(Object.keys(entry.doc.vector).filter(site => !isSilent(room, site)));
+  rooms.get(room)?.forEach(member => {
+    const session = clients.get(member);
+    if (session) sites.add(session.user.id);
   });
+  const vectors = Array.from(sites).map(site => entry.acks[site] || {});
+  if (entry.doc.collectGarbage(vectors) > 0) entry.dirty = true;
+  ws.send(JSON.stringify({ type: 'gc-collect', siteId: 'server', seen: commonVector(vectors) }));
+}
+
+// Whether another socket in the room has joined as `siteId`
+function siteInUse(room, siteId, except) {
+  return Array.from(rooms.get(room) ?? []).some(member => member !== except && clients.get(member)?.user.id === siteId);
+}
+
+// Whether a message claims to come from a site other than its sender's.
+// Sub-ops of batch inserts and formats repeat the sender's siteId (it stamps
+// their format registers), so those must match as well.
+function claimsOtherSite(message, siteId) {
+  if (!SITE_MESSAGE_TYPES.has(message.type)) return false;
+  if (message.siteId !== siteId) return true;
+  if (message.type === 'profile') return message.user?.id !== siteId;
+  return (message.type === 'batch-insert' || message.type === 'batch-format') &&
+    message.ops.some(op => op.siteId !== undefined && op.siteId !== siteId);
+}
+
+function broadcastUserList(room) {
+  const members = rooms.get(room);
+  if (!members) return;
+  const users = Array.from(members)
+    .map(ws => clients.get(ws)?.user)
+    .filter(u => u);
+  const authors = Object.values(documents.get(room)?.authors ?? {});
+  sendToRoom(room, JSON.stringify({ type: 'user-list', room, users, authors }));
+}
+
+// Logs a dropped message and tells its sender, so a rejected op leaves the
+// sender's outbox instead of being replayed on every reconnect
+function rejectMessage(ws, session, message, reason) {
+  const type = typeof message?.type === 'string' ? message.type.slice(0, 32) : null;
+  console.warn(`Rejected ${type ?? 'unreadable'} message from ${session.user.id} (${session.role}) in room ${session.room}: ${reason}`);
+  ws.send(JSON.stringify({
+    type: 'op-rejected',
+    siteId: 'server',
+    opType: type,
+    opSiteId: typeof message?.siteId === 'string' ? message.siteId : null,
+    counter: typeof message?.counter === 'number' ? message.counter : null,
+    reason
+  }));
+}
+
+function leaveRoom(ws) {
+  const session = clients.get(ws);
+  if (!session) return;
+  clients.delete(ws);
+  const members = rooms.get(session.room);
+  if (members) {
+    touchSite(session.room, session.user.id);
+    members.delete(ws);
+    if (members.size === 0) {
+      rooms.delete(session.room);
+      // Nobody left to edit: persist the room and free its memory
+      if (documents.get(session.room)?.changedSinceVersion) {
+        recordVersion(session.room, { auto: true });
+      }
+      compactDocument(session.room);
+      documents.delete(session.room);
+    } else {
+      broadcastUserList(session.room);
+    }
+  }
+}
+
+wss.on('connection', function connection(ws, req) {
+  const { grant } = req;
+  if (!grant) {
+    ws.close(4401, 'Invalid or expired token');
+    return;
+  }
+
+  ws.on('error', console.error);
+
+  ws.isAlive = true;
+  ws.on('pong', () => { ws.isAlive = true; });
+
+  ws.on('close', () => leaveRoom(ws));
 
   ws.on('message', function message(data, isBinary) {
     let parsed = null;
@@ -35,17 +391,151 @@ wss.on('connection', function connection(ws) {
       // ignore
     }
 
-    if (parsed && parsed.type === 'join' && parsed.user) {
-      clients.set(ws, parsed.user);
-      broadcastUserList();
-    } else {
-      // Broadcast to all other clients
-      wss.clients.forEach(function each(client) {
-        if (client !== ws && client.readyState === 1) { // 1 = OPEN
-          // Re-send the data exactly as received
-          client.send(data, { binary: isBinary });
-        }
-      });
+    if (parsed && parsed.type === 'join' && cleanUser(parsed.user)) {
+      const room = normalizeRoom(parsed.room);
+      const user = cleanUser(parsed.user);
+      if (room !== grant.room) {
+        ws.close(4403, 'Token does not grant this room');
+        return;
+      }
+      // A socket keeps the siteId of its first join, and a siteId belongs to
+      // one socket at a time; otherwise a client could write as someone else
+      const joined = clients.get(ws);
+      if (joined && joined.user.id !== user.id) {
+        ws.close(4409, 'siteId is fixed for this connection');
+        return;
+      }
+      if (siteInUse(room, user.id, ws)) {
+        ws.close(4409, 'siteId already in use');
+        return;
+      }
+      // A socket belongs to exactly one room; re-joining moves it
+      leaveRoom(ws);
+      // Tombstones it never acknowledged may be gone, so a delta from its
+      // vector could miss deletes: its next sync gets the full state
+      const fullSync = isSilent(room, user.id);
+      clients.set(ws, { room, user, role: grant.role, fullSync });
+      if (!rooms.has(room)) rooms.set(room, new Set());
+      rooms.get(room).add(ws);
+      touchSite(room, user.id);
+      recordAuthor(room, user);
+      broadcastUserList(room);
+      return;
+    }
+
+    const session = clients.get(ws);
+    // Ops from sockets that never joined have no room to go to
+    if (!session) return;
+
+    // Anything the token's role does not cover is dropped, e.g. edits from a
+    // viewer, and so is anything that does not match the op schema or is
+    // sent in another site's name
+    const problem = !parsed
+      ? 'unreadable message'
+      : !canSend(session.role, parsed.type)
+        ? `not allowed for role ${session.role}`
+        : validateMessage(parsed) ||
+          (claimsOtherSite(parsed, session.user.id) ? 'siteId does not match this connection' : null);
+    if (problem) {
+      rejectMessage(ws, session, parsed, problem);
+      return;
+    }
+
+    if (parsed && parsed.type === 'profile') {
+      const user = cleanUser(parsed.user);
+      if (!user) return;
+      session.user = user;
+      recordAuthor(session.room, user);
+      broadcastUserList(session.room);
+      return;
+    }
+
+    if (parsed && parsed.type === 'share-create') {
+      if (!ROLES.includes(parsed.role)) return;
+      const expiresIn = typeof parsed.expiresInDays === 'number' && parsed.expiresInDays > 0 ? parsed.expiresInDays * DAY : null;
+      const token = signToken({ room: session.room, role: parsed.role, expiresIn });
+      ws.send(JSON.stringify({ type: 'share-token', siteId: 'server', requestId: parsed.requestId, role: parsed.role, token }));
+      return;
+    }
+
+    if (parsed && parsed.type === 'request-sync') {
+      // The relay holds the authoritative copy, so it answers directly
+      answerSync(ws, session.room, session.fullSync ? null : parsed.vector);
+      session.fullSync = false;
+      return;
     }
+
+    if (parsed && parsed.type === 'history-list') {
+      ws.send(JSON.stringify({ type: 'history-list', siteId: 'server', versions: listVersions(session.room) }));
+      return;
+    }
+
+    if (parsed && parsed.type === 'history-save') {
+      recordVersion(session.room, { name: cleanVersionName(parsed.name), auto: parsed.auto === true, createdBy: session.user?.name || session.user?.id || null });
+      return;
+    }
+
+    if (parsed && parsed.type === 'history-get') {
+      const version = loadVersion(session.room, parsed.id);
+      ws.send(JSON.stringify({ type: 'history-version', siteId: 'server', requestId: parsed.requestId, version }));
+      return;
+    }
+
+    if (parsed && parsed.type === 'comment-list') {
+      sendComments(ws, session.room);
+      return;
+    }
+
+    if (parsed && COMMENT_MESSAGE_TYPES.has(parsed.type)) {
+      if (applyComment(session.room, session, parsed)) sendComments(null, session.room);
+      return;
+    }
+
+    if (parsed && parsed.type === 'gc-ack') {
+      acknowledgeDeletes(ws, session.room, session.user.id, parsed.seen);
+      return;
+    }
+
+    if (parsed && DOCUMENT_OP_TYPES.has(parsed.type)) {
+      if (!recordOp(session.room, parsed)) {
+        // Its (siteId, counter) was taken already, e.g. by a replay from the
+        // outbox, so it was not applied
+        rejectMessage(ws, session, parsed, 'already applied');
+        return;
+      }
+      if (typeof parsed.counter === 'number') {
+        // Lets the sender drop the op from its offline queue
+        ws.send(JSON.stringify({ type: 'op-ack', siteId: 'server', opSiteId: parsed.siteId, counter: parsed.counter }));
+      }
+    }
+
+    // Broadcast to the other clients in the same room,
+    // re-sending the data exactly as received
+    sendToRoom(session.room, data, { binary: isBinary }, ws);
   });
 });
+
+setInterval(() => {
+  documents.forEach((entry, room) => {
+    if (entry.changedSinceVersion) recordVersion(room, { auto: true });
+  });
+}, AUTO_VERSION_INTERVAL);
+
+setInterval(() => {
+  wss.clients.forEach(ws => {
+    if (!ws.isAlive) {
+      ws.terminate();
+      return;
+    }
+    ws.isAlive = false;
+    ws.ping();
+  });
+}, HEARTBEAT_INTERVAL);
+
+function shutdown() {
+  documents.forEach((_, room) => compactDocument(room));
+  process.exit(0);
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
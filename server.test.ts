@@ -0,0 +1,281 @@
+import { ChildProcess, spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import WebSocket from 'ws';
+
+// Runs the real relay on a spare port against a throwaway data directory
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'collab-relay-'));
+process.env.COLLAB_DATA_DIR = dataDir;
+process.env.COLLAB_SECRET = 'relay-test-secret';
+const { signToken, verifyToken } = await import('./server/auth.js');
+
+const PORT = 20000 + Math.floor(Math.random() * 20000);
+// How long a site may be away before the relay stops waiting for its gc-ack
+const SILENT_SITE_TIMEOUT = 1500;
+let relay: ChildProcess;
+
+const startRelay = () =>
+  new Promise<void>((resolve, reject) => {
+    relay = spawn(process.execPath, ['server.js'], {
+      env: { ...process.env, COLLAB_PORT: String(PORT), COLLAB_SILENT_SITE_TIMEOUT: String(SILENT_SITE_TIMEOUT) },
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+    relay.stderr!.resume();
+    relay.stdout!.on('data', chunk => {
+      if (String(chunk).includes('started')) resolve();
+    });
+    relay.once('exit', code => reject(new Error(`relay exited with code ${code}`)));
+  });
+
+const stopRelay = () =>
+  new Promise<void>(resolve => {
+    relay.once('exit', () => resolve());
+    relay.kill('SIGTERM');
+  });
+
+interface Peer {
+  id: string;
+  ws: WebSocket;
+  send: (message: object) => void;
+  // Resolves with (and consumes) the first message of `type`
+  next: (type: string) => Promise<any>;
+  received: (type: string) => any[];
+}
+
+const socketUrl = (token?: string) => `ws://localhost:${PORT}/${token ? `?token=${encodeURIComponent(token)}` : ''}`;
+
+const connect = (room: string, role: string, id: string) =>
+  new Promise<Peer>((resolve, reject) => {
+    const ws = new WebSocket(socketUrl(signToken({ room, role })));
+    const inbox: any[] = [];
+    ws.on('message', (data: Buffer) => inbox.push(JSON.parse(String(data))));
+    ws.once('error', reject);
+    const peer: Peer = {
+      id,
+      ws,
+      send: message => ws.send(JSON.stringify(message)),
+      next: type =>
+        vi.waitFor(() => {
+          const index = inbox.findIndex(message => message.type === type);
+          if (index === -1) throw new Error(`${id} got no ${type} message`);
+          return inbox.splice(index, 1)[0];
+        }, { timeout: 3000 }),
+      received: type => inbox.filter(message => message.type === type)
+    };
+    ws.once('open', async () => {
+      peer.send({ type: 'join', room, user: { id, name: id, color: '#000000' } });
+      await peer.next('user-list');
+      resolve(peer);
+    });
+  });
+
+const insert = (siteId: string, counter: number, value: string, position: number[]) => ({
+  type: 'insert',
+  siteId,
+  counter,
+  char: { value, position, siteId }
+});
+
+const peers: Peer[] = [];
+const join = async (room: string, role: string, id: string) => {
+  const peer = await connect(room, role, id);
+  peers.push(peer);
+  return peer;
+};
+
+beforeAll(startRelay);
+
+afterAll(async () => {
+  peers.forEach(peer => peer.ws.close());
+  await stopRelay();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('relay access', () => {
+  it('closes connections without a valid token', async () => {
+    const ws = new WebSocket(socketUrl('forged.token'));
+    const code = await new Promise(resolve => ws.once('close', resolve));
+    expect(code).toBe(4401);
+  });
+
+  it('closes a socket that joins a room its token does not grant', async () => {
+    const ws = new WebSocket(socketUrl(signToken({ room: 'granted', role: 'editor' })));
+    await new Promise(resolve => ws.once('open', resolve));
+    ws.send(JSON.stringify({ type: 'join', room: 'elsewhere', user: { id: 'x', name: 'x', color: '' } }));
+    const code = await new Promise(resolve => ws.once('close', resolve));
+    expect(code).toBe(4403);
+  });
+
+  it('rejects messages the role does not cover', async () => {
+    const viewer = await join('roles', 'viewer', 'viewer');
+    viewer.send(insert('viewer', 1, 'x', [1]));
+    expect(await viewer.next('op-rejected')).toMatchObject({ opType: 'insert', opSiteId: 'viewer', counter: 1, reason: 'not allowed for role viewer' });
+
+    const owner = await join('roles', 'owner', 'owner');
+    owner.send({ type: 'share-create', requestId: 'r1', role: 'commenter', expiresInDays: 1 });
+    const { token } = await owner.next('share-token');
+    expect(verifyToken(token)).toEqual({ room: 'roles', role: 'commenter' });
+  });
+
+  it('rejects ops that do not match the schema', async () => {
+    const editor = await join('schema', 'editor', 'editor');
+    editor.send(insert('editor', 1, 'x', [-3]));
+    expect(await editor.next('op-rejected')).toMatchObject({ opType: 'insert', reason: 'char.position digits must be non-negative integers or -1' });
+    editor.send(insert('editor', 2, 'x', [3]));
+    expect(await editor.next('op-ack')).toMatchObject({ opSiteId: 'editor', counter: 2 });
+  });
+
+  it('binds each socket to the siteId it joined with', async () => {
+    const a = await join('bound', 'editor', 'a');
+    const mallory = await join('bound', 'editor', 'mallory');
+
+    mallory.send(insert('a', 1, 'x', [1]));
+    mallory.send({ type: 'batch-format', siteId: 'mallory', counter: 1, ops: [{ position: [1], charSiteId: 'a', attributes: { bold: true }, siteId: 'a', clock: 9 }] });
+    mallory.send({ type: 'cursor', siteId: 'a', anchor: null, head: null, name: 'Ada', color: '#000000' });
+    mallory.send({ type: 'gc-ack', siteId: 'a', seen: {} });
+    mallory.send({ type: 'profile', siteId: 'mallory', user: { id: 'a', name: 'Ada', color: '#000000' } });
+    await vi.waitFor(() => expect(mallory.received('op-rejected')).toHaveLength(5));
+    mallory.received('op-rejected').forEach(rejection => expect(rejection.reason).toBe('siteId does not match this connection'));
+    expect(a.received('cursor')).toEqual([]);
+
+    const closed = (ws: WebSocket) => new Promise(resolve => ws.once('close', resolve));
+    // Re-joining under another siteId
+    mallory.send({ type: 'join', room: 'bound', user: { id: 'b', name: 'b', color: '' } });
+    expect(await closed(mallory.ws)).toBe(4409);
+
+    // A second socket claiming a siteId already in the room
+    const twin = new WebSocket(socketUrl(signToken({ room: 'bound', role: 'editor' })));
+    await new Promise(resolve => twin.once('open', resolve));
+    twin.send(JSON.stringify({ type: 'join', room: 'bound', user: { id: 'a', name: 'a', color: '' } }));
+    expect(await closed(twin)).toBe(4409);
+  });
+});
+
+describe('relay rooms', () => {
+  it('relays ops to the other members of the same room only', async () => {
+    const a = await join('room-one', 'editor', 'a');
+    const c = await join('room-one', 'editor', 'c');
+    const b = await join('room-two', 'editor', 'b');
+
+    a.send(insert('a', 1, 'x', [1]));
+    expect(await a.next('op-ack')).toMatchObject({ opSiteId: 'a', counter: 1 });
+    expect(await c.next('insert')).toMatchObject({ siteId: 'a', char: { value: 'x' } });
+    expect(b.received('insert')).toEqual([]);
+    expect(a.received('insert')).toEqual([]);
+  });
+
+  it('rejects rather than acknowledges an op whose stamp was already applied', async () => {
+    const a = await join('collision', 'editor', 'a');
+    const watcher = await join('collision', 'viewer', 'watcher');
+
+    a.send(insert('a', 1, 'x', [1]));
+    await a.next('op-ack');
+    // A replay under the same stamp, with different content
+    a.send(insert('a', 1, 'y', [2]));
+    expect(await a.next('op-rejected')).toMatchObject({ opType: 'insert', opSiteId: 'a', counter: 1, reason: 'already applied' });
+    expect(a.received('op-ack')).toEqual([]);
+
+    await watcher.next('insert');
+    watcher.send({ type: 'request-sync', siteId: 'watcher' });
+    expect((await watcher.next('sync-response')).state.map((c: { value: string }) => c.value)).toEqual(['x']);
+    expect(watcher.received('insert')).toEqual([]);
+  });
+
+  it('answers request-sync with the full state or with the missing ops', async () => {
+    const a = await join('sync', 'editor', 'a');
+    a.send(insert('a', 1, 'h', [1]));
+    a.send(insert('a', 2, 'i', [2]));
+    await a.next('op-ack');
+    await a.next('op-ack');
+
+    const fresh = await join('sync', 'viewer', 'fresh');
+    fresh.send({ type: 'request-sync', siteId: 'fresh' });
+    const full = await fresh.next('sync-response');
+    expect(full.state.map((c: { value: string }) => c.value).join('')).toBe('hi');
+    expect(full.vector).toEqual({ a: 2 });
+
+    fresh.send({ type: 'request-sync', siteId: 'fresh', vector: { a: 1 } });
+    const delta = await fresh.next('sync-delta');
+    expect(delta.ops).toEqual([insert('a', 2, 'i', [2])]);
+  });
+
+  it('keeps tombstones until every site that wrote has acknowledged them', async () => {
+    const a = await join('gc', 'editor', 'a');
+    const b = await join('gc', 'editor', 'b');
+    a.send(insert('a', 1, 'x', [1]));
+    b.send(insert('b', 1, 'y', [2]));
+    await a.next('op-ack');
+    await b.next('op-ack');
+    b.ws.close();
+
+    // b has left without seeing the delete
+    a.send({ type: 'delete', position: [1], siteId: 'a', deleterId: 'a', seq: 1, counter: 2 });
+    await a.next('op-ack');
+    a.send({ type: 'gc-ack', siteId: 'a', seen: { a: 1 } });
+    expect((await a.next('gc-collect')).seen).toEqual({});
+    a.send({ type: 'request-sync', siteId: 'a' });
+    expect((await a.next('sync-response')).tombstones).toHaveLength(1);
+
+    const back = await join('gc', 'editor', 'b');
+    back.send({ type: 'gc-ack', siteId: 'b', seen: { a: 1 } });
+    expect((await back.next('gc-collect')).seen).toEqual({ a: 1 });
+    back.send({ type: 'request-sync', siteId: 'b' });
+    expect((await back.next('sync-response')).tombstones).toEqual([]);
+    // Acknowledgements go to the relay only
+    expect(a.received('gc-ack')).toEqual([]);
+  });
+
+  it('stops waiting for a silent site and sends it the full state when it returns', async () => {
+    const a = await join('silent', 'editor', 'a');
+    const b = await join('silent', 'editor', 'b');
+    a.send(insert('a', 1, 'x', [1]));
+    b.send(insert('b', 1, 'y', [2]));
+    await a.next('op-ack');
+    await b.next('op-ack');
+    b.ws.close();
+
+    a.send({ type: 'delete', position: [1], siteId: 'a', deleterId: 'a', seq: 1, counter: 2 });
+    await a.next('op-ack');
+    await new Promise(resolve => setTimeout(resolve, SILENT_SITE_TIMEOUT + 200));
+    a.send({ type: 'gc-ack', siteId: 'a', seen: { a: 1 } });
+    expect((await a.next('gc-collect')).seen).toEqual({ a: 1 });
+    a.send({ type: 'request-sync', siteId: 'a' });
+    expect((await a.next('sync-response')).tombstones).toEqual([]);
+
+    // A delta from b's vector would not say that x is gone
+    const back = await join('silent', 'editor', 'b');
+    back.send({ type: 'request-sync', siteId: 'b', vector: { a: 1, b: 1 } });
+    expect((await back.next('sync-response')).state.map((c: { value: string }) => c.value)).toEqual(['y']);
+    back.send({ type: 'request-sync', siteId: 'b', vector: { a: 2, b: 1 } });
+    expect((await back.next('sync-delta')).ops).toEqual([]);
+  });
+
+  it('keeps rooms, history and comments across restarts', async () => {
+    const a = await join('durable', 'editor', 'a');
+    a.send(insert('a', 1, 'x', [1]));
+    await a.next('op-ack');
+    a.send({ type: 'history-save', siteId: 'a', name: 'First draft' });
+    expect((await a.next('history-list')).versions).toEqual([expect.objectContaining({ name: 'First draft', charCount: 1 })]);
+    a.send({
+      type: 'comment-add',
+      siteId: 'a',
+      anchor: { start: { position: [1], siteId: 'a' }, end: { position: [1], siteId: 'a' } },
+      quote: 'x',
+      text: 'Why x?'
+    });
+    expect((await a.next('comment-list')).threads).toHaveLength(1);
+
+    await stopRelay();
+    await startRelay();
+
+    const b = await join('durable', 'commenter', 'b');
+    b.send({ type: 'request-sync', siteId: 'b' });
+    expect((await b.next('sync-response')).state).toEqual([{ value: 'x', position: [1], siteId: 'a' }]);
+    b.send({ type: 'history-list', siteId: 'b' });
+    expect((await b.next('history-list')).versions).toHaveLength(1);
+    b.send({ type: 'comment-list', siteId: 'b' });
+    expect((await b.next('comment-list')).threads[0].messages[0]).toMatchObject({ author: 'a', text: 'Why x?' });
+  });
+});
@@ -0,0 +1,77 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { DATA_DIR } from './documentStore.js';
+import { DOCUMENT_OP_TYPES } from './roomDocument.js';
+
+// Share tokens grant one role in one room. They are signed with a secret
+// that never leaves this machine, so the relay can check them without an
+// identity provider:
+//
+//   base64url(JSON { room, role, exp }) + '.' + base64url(HMAC-SHA256)
+//
+// The secret comes from COLLAB_SECRET or, failing that, <data dir>/secret.key,
+// which is created on first use. Changing it revokes every token.
+const SECRET_PATH = path.join(DATA_DIR, 'secret.key');
+
+export const ROLES = ['viewer', 'commenter', 'editor', 'owner'];
+
+// Messages each role may send, on top of everything the roles before it may
+const ROLE_MESSAGES = {
+  viewer: ['request-sync', 'history-list', 'history-get', 'comment-list', 'gc-ack', 'cursor', 'profile'],
+  commenter: ['comment-add', 'comment-reply', 'comment-resolve'],
+  editor: [...DOCUMENT_OP_TYPES, 'history-save'],
+  owner: ['share-create']
+};
+
+const ALLOWED = new Map(
+  ROLES.map((role, rank) => [role, new Set(ROLES.slice(0, rank + 1).flatMap(lower => ROLE_MESSAGES[lower]))])
+);
+
+export const canSend = (role, type) => ALLOWED.get(role)?.has(type) ?? false;
+
+let secret = null;
+
+function loadSecret() {
+  if (secret) return secret;
+  if (process.env.COLLAB_SECRET) {
+    secret = process.env.COLLAB_SECRET;
+    return secret;
+  }
+  try {
+    secret = fs.readFileSync(SECRET_PATH, 'utf8').trim();
+  } catch (err) {
+    if (err.code !== 'ENOENT') throw err;
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    secret = crypto.randomBytes(32).toString('hex');
+    fs.writeFileSync(SECRET_PATH, secret, { mode: 0o600 });
+  }
+  return secret;
+}
+
+const sign = (payload) => crypto.createHmac('sha256', loadSecret()).update(payload).digest('base64url');
+
+// `expiresIn` is in milliseconds; leave it out for a token that never expires
+export function signToken({ room, role, expiresIn = null }) {
+  if (!ROLES.includes(role)) throw new Error(`Unknown role: ${role}`);
+  const payload = Buffer.from(JSON.stringify({ room, role, exp: expiresIn ? Date.now() + expiresIn : null })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+// The { room, role } a token grants, or null if it is forged, malformed or expired
+export function verifyToken(token) {
+  if (typeof token !== 'string') return null;
+  const [payload, signature, extra] = token.split('.');
+  if (!payload || !signature || extra !== undefined) return null;
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+  try {
+    const { room, role, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof room !== 'string' || !ROLES.includes(role)) return null;
+    if (typeof exp === 'number' && exp < Date.now()) return null;
+    return { room, role };
+  } catch (e) {
+    return null;
+  }
+}
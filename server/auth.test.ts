@@ -0,0 +1,53 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'collab-auth-'));
+process.env.COLLAB_DATA_DIR = dataDir;
+process.env.COLLAB_SECRET = 'test-secret';
+const { canSend, signToken, verifyToken } = await import('./auth.js');
+
+afterAll(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+describe('share tokens', () => {
+  it('round-trips the room and role', () => {
+    expect(verifyToken(signToken({ room: 'notes', role: 'editor' }))).toEqual({ room: 'notes', role: 'editor' });
+  });
+
+  it('rejects forged, malformed and expired tokens', () => {
+    const token = signToken({ room: 'notes', role: 'viewer' });
+    const [payload, signature] = token.split('.');
+    const owner = Buffer.from(JSON.stringify({ room: 'notes', role: 'owner', exp: null })).toString('base64url');
+
+    expect(verifyToken(`${owner}.${signature}`)).toBeNull();
+    expect(verifyToken(payload)).toBeNull();
+    expect(verifyToken(`${token}.extra`)).toBeNull();
+    expect(verifyToken(undefined)).toBeNull();
+    expect(verifyToken(signToken({ room: 'notes', role: 'viewer', expiresIn: -1000 }))).toBeNull();
+  });
+
+  it('refuses to sign an unknown role', () => {
+    expect(() => signToken({ room: 'notes', role: 'admin' })).toThrow('Unknown role');
+  });
+});
+
+describe('role permissions', () => {
+  it('lets each role send what the roles below it may send', () => {
+    expect(canSend('viewer', 'request-sync')).toBe(true);
+    expect(canSend('viewer', 'comment-add')).toBe(false);
+    expect(canSend('commenter', 'comment-add')).toBe(true);
+    expect(canSend('commenter', 'insert')).toBe(false);
+    expect(canSend('editor', 'batch-format')).toBe(true);
+    expect(canSend('editor', 'comment-reply')).toBe(true);
+    expect(canSend('editor', 'share-create')).toBe(false);
+    expect(canSend('owner', 'share-create')).toBe(true);
+  });
+
+  it('allows nothing for an unknown role or message', () => {
+    expect(canSend('admin', 'request-sync')).toBe(false);
+    expect(canSend('owner', 'drop-room')).toBe(false);
+    // Imports travel as batches; nothing may replace a room wholesale
+    expect(canSend('owner', 'import-document')).toBe(false);
+  });
+});
@@ -0,0 +1,176 @@
+import fs from 'fs';
+import path from 'path';
+
+// Each room is persisted as a snapshot of its CRDTChar[] state plus an
+// append-only log of the ops applied since that snapshot:
+//
+//   <data dir>/rooms/<room>/snapshot.json
+//   <data dir>/rooms/<room>/ops.log   (one JSON op per line)
+export const DATA_DIR = path.resolve(process.env.COLLAB_DATA_DIR || 'data');
+const ROOMS_DIR = path.join(DATA_DIR, 'rooms');
+
+const roomDir = (room) => path.join(ROOMS_DIR, room);
+const snapshotPath = (room) => path.join(roomDir(room), 'snapshot.json');
+const logPath = (room) => path.join(roomDir(room), 'ops.log');
+
+export function loadRoom(room) {
+  let state = [];
+  let tombstones = [];
+  let seenDeletes = {};
+  let vector = {};
+  let acks = {};
+  let lastSeen = {};
+  try {
+    const snapshot = JSON.parse(fs.readFileSync(snapshotPath(room), 'utf8'));
+    if (Array.isArray(snapshot.state)) state = snapshot.state;
+    if (Array.isArray(snapshot.tombstones)) tombstones = snapshot.tombstones;
+    if (snapshot.seenDeletes && typeof snapshot.seenDeletes === 'object') seenDeletes = snapshot.seenDeletes;
+    // Snapshots written before version vectors existed cannot serve deltas
+    vector = snapshot.vector && typeof snapshot.vector === 'object' ? snapshot.vector : null;
+    if (snapshot.acks && typeof snapshot.acks === 'object') acks = snapshot.acks;
+    if (snapshot.lastSeen && typeof snapshot.lastSeen === 'object') lastSeen = snapshot.lastSeen;
+  } catch (err) {
+    if (err.code !== 'ENOENT') console.error(`Failed to read snapshot for room ${room}`, err);
+  }
+
+  const ops = [];
+  try {
+    const lines = fs.readFileSync(logPath(room), 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line) continue;
+      try {
+        ops.push(JSON.parse(line));
+      } catch (e) {
+        // A crash mid-append can leave a torn last line; skip it
+        console.warn(`Skipping unreadable op log line in room ${room}`);
+      }
+    }
+  } catch (err) {
+    if (err.code !== 'ENOENT') console.error(`Failed to read op log for room ${room}`, err);
+  }
+
+  return { state, tombstones, seenDeletes, vector, acks, lastSeen, ops };
+}
+
+export function appendOp(room, op) {
+  fs.mkdirSync(roomDir(room), { recursive: true });
+  fs.appendFileSync(logPath(room), JSON.stringify(op) + '\n');
+}
+
+// Writes the snapshot atomically, then truncates the log it now covers.
+// `acks` holds the delete vector each site last acknowledged, `lastSeen`
+// when each site last joined or left.
+export function writeSnapshot(room, { state, tombstones, seenDeletes, vector, acks = {}, lastSeen = {} }) {
+  fs.mkdirSync(roomDir(room), { recursive: true });
+  const target = snapshotPath(room);
+  const tmp = `${target}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify({ room, savedAt: Date.now(), state, tombstones, seenDeletes, vector, acks, lastSeen }));
+  fs.renameSync(tmp, target);
+  fs.writeFileSync(logPath(room), '');
+}
+
+// Everyone who has ever joined the room, so authorship can still name sites
+// that have left:
+//
+//   <data dir>/rooms/<room>/authors.json   ({ [siteId]: { id, userId, name, color } })
+const authorsPath = (room) => path.join(roomDir(room), 'authors.json');
+
+export function loadAuthors(room) {
+  try {
+    const authors = JSON.parse(fs.readFileSync(authorsPath(room), 'utf8'));
+    return authors && typeof authors === 'object' ? authors : {};
+  } catch (err) {
+    if (err.code !== 'ENOENT') console.error(`Failed to read authors for room ${room}`, err);
+    return {};
+  }
+}
+
+export function saveAuthors(room, authors) {
+  fs.mkdirSync(roomDir(room), { recursive: true });
+  fs.writeFileSync(authorsPath(room), JSON.stringify(authors));
+}
+
+// Comment threads of the room, in the order they were opened:
+//
+//   <data dir>/rooms/<room>/comments.json
+const commentsPath = (room) => path.join(roomDir(room), 'comments.json');
+
+export function loadComments(room) {
+  try {
+    const threads = JSON.parse(fs.readFileSync(commentsPath(room), 'utf8'));
+    return Array.isArray(threads) ? threads : [];
+  } catch (err) {
+    if (err.code !== 'ENOENT') console.error(`Failed to read comments for room ${room}`, err);
+    return [];
+  }
+}
+
+export function saveComments(room, threads) {
+  fs.mkdirSync(roomDir(room), { recursive: true });
+  const target = commentsPath(room);
+  const tmp = `${target}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(threads));
+  fs.renameSync(tmp, target);
+}
+
+// Versions of a room for the history panel:
+//
+//   <data dir>/rooms/<room>/history/index.json   (metadata, oldest first)
+//   <data dir>/rooms/<room>/history/<id>.json    (metadata plus state)
+//
+// Automatic versions beyond MAX_AUTO_VERSIONS are pruned oldest first;
+// versions saved by hand are never pruned.
+const MAX_AUTO_VERSIONS = 50;
+
+const historyDir = (room) => path.join(roomDir(room), 'history');
+const historyIndexPath = (room) => path.join(historyDir(room), 'index.json');
+const versionPath = (room, id) => path.join(historyDir(room), `${id}.json`);
+const isVersionId = (id) => typeof id === 'string' && /^[a-z0-9-]{1,40}$/.test(id);
+
+export function listVersions(room) {
+  try {
+    const index = JSON.parse(fs.readFileSync(historyIndexPath(room), 'utf8'));
+    return Array.isArray(index) ? index : [];
+  } catch (err) {
+    if (err.code !== 'ENOENT') console.error(`Failed to read history for room ${room}`, err);
+    return [];
+  }
+}
+
+function writeHistoryIndex(room, index) {
+  const target = historyIndexPath(room);
+  const tmp = `${target}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(index));
+  fs.renameSync(tmp, target);
+}
+
+// Stores `state` (the visible CRDTChar[]) as a new version; returns its metadata
+export function saveVersion(room, { state, name = null, auto = false, createdBy = null }) {
+  fs.mkdirSync(historyDir(room), { recursive: true });
+  const meta = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    auto,
+    createdAt: Date.now(),
+    createdBy,
+    charCount: state.length
+  };
+  fs.writeFileSync(versionPath(room, meta.id), JSON.stringify({ ...meta, state }));
+
+  const index = [...listVersions(room), meta];
+  const autos = index.filter(version => version.auto);
+  const pruned = new Set(autos.slice(0, Math.max(0, autos.length - MAX_AUTO_VERSIONS)).map(version => version.id));
+  pruned.forEach(id => fs.rmSync(versionPath(room, id), { force: true }));
+  writeHistoryIndex(room, index.filter(version => !pruned.has(version.id)));
+  return meta;
+}
+
+export function loadVersion(room, id) {
+  if (!isVersionId(id)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(versionPath(room, id), 'utf8'));
+  } catch (err) {
+    if (err.code !== 'ENOENT') console.error(`Failed to read version ${id} of room ${room}`, err);
+    return null;
+  }
+}
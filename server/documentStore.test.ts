@@ -0,0 +1,90 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+// DATA_DIR is read when the module loads
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'collab-store-'));
+process.env.COLLAB_DATA_DIR = dataDir;
+const store = await import('./documentStore.js');
+
+afterAll(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+const char = (value: string, position: number[]) => ({ value, position, siteId: 'a' });
+
+describe('room snapshots and op log', () => {
+  it('starts empty for a room that was never written', () => {
+    expect(store.loadRoom('fresh')).toEqual({ state: [], tombstones: [], seenDeletes: {}, vector: {}, acks: {}, lastSeen: {}, ops: [] });
+  });
+
+  it('replays logged ops until a snapshot covers them', () => {
+    const op = { type: 'insert', char: char('x', [1]), siteId: 'a', counter: 1 };
+    store.appendOp('log', op);
+    store.appendOp('log', { ...op, counter: 2 });
+    expect(store.loadRoom('log').ops).toEqual([op, { ...op, counter: 2 }]);
+
+    const snapshot = { state: [char('x', [1])], tombstones: [], seenDeletes: { a: 1 }, vector: { a: 2 }, acks: { b: { a: 1 } }, lastSeen: { b: 1000 } };
+    store.writeSnapshot('log', snapshot);
+    expect(store.loadRoom('log')).toEqual({ ...snapshot, ops: [] });
+  });
+
+  it('skips a torn last line of the op log', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const op = { type: 'insert', char: char('x', [1]), siteId: 'a', counter: 1 };
+    store.appendOp('torn', op);
+    fs.appendFileSync(path.join(dataDir, 'rooms', 'torn', 'ops.log'), '{"type":"ins');
+    expect(store.loadRoom('torn').ops).toEqual([op]);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+
+  it('reports no vector for snapshots written before version vectors', () => {
+    fs.mkdirSync(path.join(dataDir, 'rooms', 'legacy'), { recursive: true });
+    fs.writeFileSync(path.join(dataDir, 'rooms', 'legacy', 'snapshot.json'), JSON.stringify({ state: [char('x', [1])] }));
+    const room = store.loadRoom('legacy');
+    expect(room.state).toHaveLength(1);
+    expect(room.vector).toBeNull();
+  });
+});
+
+describe('room authors and comments', () => {
+  it('round-trips authors and comment threads', () => {
+    const authors = { a: { id: 'a', userId: 'u1', name: 'Ada', color: '#112233' } };
+    store.saveAuthors('meta', authors);
+    expect(store.loadAuthors('meta')).toEqual(authors);
+
+    const threads = [{ id: 't1', anchor: { start: { position: [1], siteId: 'a' }, end: { position: [2], siteId: 'a' } }, quote: 'hi', messages: [], resolved: false, createdAt: 1 }];
+    store.saveComments('meta', threads);
+    expect(store.loadComments('meta')).toEqual(threads);
+  });
+
+  it('returns empty defaults when nothing was saved', () => {
+    expect(store.loadAuthors('nobody')).toEqual({});
+    expect(store.loadComments('nobody')).toEqual([]);
+  });
+});
+
+describe('room history', () => {
+  it('saves, lists and loads versions', () => {
+    const meta = store.saveVersion('history', { state: [char('x', [1])], name: 'Draft', createdBy: 'a' });
+    expect(meta).toMatchObject({ name: 'Draft', auto: false, createdBy: 'a', charCount: 1 });
+    expect(store.listVersions('history')).toEqual([meta]);
+    expect(store.loadVersion('history', meta.id)).toEqual({ ...meta, state: [char('x', [1])] });
+  });
+
+  it('refuses version ids that could escape the history folder', () => {
+    expect(store.loadVersion('history', '../snapshot')).toBeNull();
+  });
+
+  it('prunes the oldest automatic versions but keeps named ones', () => {
+    const named = store.saveVersion('pruned', { state: [], name: 'Keep me' });
+    const autos = Array.from({ length: 52 }, () => store.saveVersion('pruned', { state: [], auto: true }));
+
+    const ids = store.listVersions('pruned').map(version => version.id);
+    expect(ids).toHaveLength(51);
+    expect(ids).toContain(named.id);
+    expect(ids).not.toContain(autos[0].id);
+    expect(ids).not.toContain(autos[1].id);
+    expect(store.loadVersion('pruned', autos[0].id)).toBeNull();
+  });
+});
@@ -0,0 +1,244 @@
+// Server-side replica of a room's document. Mirrors the ordering rules of
+// LSEQ in lib/crdt.ts so the relay can answer request-sync on its own.
+
+export const DOCUMENT_OP_TYPES = new Set([
+  'insert',
+  'delete',
+  'format',
+  'batch-insert',
+  'batch-delete',
+  'batch-format'
+]);
+
+const charKey = (position, siteId) => `${siteId}:${position.join(',')}`;
+
+// Digit of a char squeezed between two chars sharing a position, as in
+// lib/crdt.ts: below every digit, right after the char named by its tie
+const TIE = -1;
+
+const tieAt = (char, index) => char.ties?.[index] ?? '';
+
+function compareChars(a, b) {
+  const minLen = Math.min(a.position.length, b.position.length);
+  let tie = 0;
+  for (let i = 0; i < minLen; i++) {
+    if (a.position[i] !== b.position[i]) return a.position[i] - b.position[i];
+    if (a.position[i] === TIE) {
+      const cmp = tieAt(a, tie).localeCompare(tieAt(b, tie));
+      if (cmp !== 0) return cmp;
+      tie++;
+    }
+  }
+  if (a.position.length === b.position.length) return a.siteId.localeCompare(b.siteId);
+
+  const sign = a.position.length < b.position.length ? 1 : -1;
+  const [shorter, longer] = sign === 1 ? [a, b] : [b, a];
+  if (longer.position[minLen] === TIE && shorter.siteId.localeCompare(tieAt(longer, tie)) > 0) return sign;
+  return -sign;
+}
+
+const ZERO_STAMP = { clock: 0, siteId: '' };
+
+const compareStamps = (a, b) =>
+  a.clock !== b.clock ? a.clock - b.clock : a.siteId.localeCompare(b.siteId);
+
+// Per-attribute last-writer-wins, same rule as applyAttributes in lib/crdt.ts
+function applyAttributes(char, patch, stamp) {
+  const attributes = { ...(char.attributes || {}) };
+  const stamps = { ...(char.attributeStamps || {}) };
+  let changed = false;
+
+  Object.keys(patch).forEach(key => {
+    if (compareStamps(stamp, stamps[key] ?? ZERO_STAMP) <= 0) return;
+    const value = patch[key];
+    if (value === null || value === undefined) delete attributes[key];
+    else attributes[key] = value;
+    stamps[key] = stamp;
+    changed = true;
+  });
+
+  if (changed) {
+    char.attributes = attributes;
+    char.attributeStamps = stamps;
+  }
+}
+
+function isValidChar(char) {
+  return !!char &&
+    typeof char.value === 'string' &&
+    typeof char.siteId === 'string' &&
+    Array.isArray(char.position);
+}
+
+// True when `a` has seen everything `b` has
+export function dominates(a, b) {
+  return Object.keys(b || {}).every(site => (a?.[site] ?? 0) >= b[site]);
+}
+
+// Pointwise minimum: what every one of `vectors` has seen
+export function commonVector(vectors) {
+  const floor = {};
+  if (vectors.length === 0) return floor;
+  Object.keys(vectors[0] || {}).forEach(site => {
+    const min = Math.min(...vectors.map(v => v?.[site] ?? 0));
+    if (min > 0) floor[site] = min;
+  });
+  return floor;
+}
+
+export class RoomDocument {
+  constructor(state = [], tombstones = [], seenDeletes = {}, vector = {}) {
+    // Highest op counter applied from each site
+    this.vector = { ...vector };
+    this.chars = [];
+    this.keys = new Map();
+    // Deleted identifiers, kept until every site in the room has seen them
+    this.tombstones = new Map();
+    this.pendingFormats = new Map();
+    this.seenDeletes = {};
+    this.load(state, tombstones, seenDeletes);
+  }
+
+  get state() {
+    return this.chars;
+  }
+
+  get tombstoneState() {
+    return Array.from(this.tombstones.values());
+  }
+
+  load(state, tombstones = [], seenDeletes = {}) {
+    this.tombstones = new Map();
+    this.pendingFormats = new Map();
+    this.seenDeletes = {};
+    (Array.isArray(tombstones) ? tombstones : [])
+      .filter(t => t && Array.isArray(t.position) && typeof t.siteId === 'string')
+      .forEach(t => this.recordTombstone(t));
+    this.mergeDeleteVector(seenDeletes);
+
+    this.chars = (Array.isArray(state) ? state : [])
+      .filter(c => isValidChar(c) && !this.tombstones.has(charKey(c.position, c.siteId)));
+    this.chars.sort(compareChars);
+    this.keys = new Map(this.chars.map(c => [charKey(c.position, c.siteId), c]));
+  }
+
+  // Applies a document op. Returns false for ops we do not understand and
+  // for ops whose (siteId, counter) we have already applied.
+  apply(op) {
+    if (!DOCUMENT_OP_TYPES.has(op.type)) return false;
+    if (typeof op.counter === 'number') {
+      if (op.counter <= (this.vector[op.siteId] ?? 0)) return false;
+      this.vector[op.siteId] = op.counter;
+    }
+
+    switch (op.type) {
+      case 'insert':
+        this.insert(op.char);
+        return true;
+      case 'delete':
+        this.delete(op);
+        return true;
+      case 'format':
+        this.format(op.position, op.charSiteId, op.attributes, { clock: op.clock ?? 0, siteId: op.siteId });
+        return true;
+      case 'batch-insert':
+        (op.ops || []).forEach(subOp => this.insert(subOp.char));
+        return true;
+      case 'batch-delete':
+        (op.ops || []).forEach(subOp => this.delete(subOp));
+        return true;
+      case 'batch-format':
+        (op.ops || []).forEach(subOp => this.format(subOp.position, subOp.charSiteId, subOp.attributes, {
+          clock: subOp.clock ?? 0,
+          siteId: subOp.siteId ?? op.siteId
+        }));
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  insert(char) {
+    if (!isValidChar(char)) return;
+    const key = charKey(char.position, char.siteId);
+    if (this.keys.has(key)) return;
+    const tombstone = this.tombstones.get(key);
+    if (tombstone) {
+      if (!tombstone.char) tombstone.char = char;
+      return;
+    }
+
+    const pending = this.pendingFormats.get(key);
+    if (pending) {
+      pending.forEach(({ patch, stamp }) => applyAttributes(char, patch, stamp));
+      this.pendingFormats.delete(key);
+    }
+
+    let low = 0;
+    let high = this.chars.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (compareChars(this.chars[mid], char) < 0) low = mid + 1;
+      else high = mid;
+    }
+    this.chars.splice(low, 0, char);
+    this.keys.set(key, char);
+  }
+
+  delete({ position, siteId, deleterId, seq }) {
+    if (!Array.isArray(position)) return;
+    const key = charKey(position, siteId);
+    const char = this.keys.get(key);
+
+    this.recordTombstone({ position, siteId, deletedBy: deleterId || '', seq: seq || 0, char });
+    if (!char) return;
+
+    this.keys.delete(key);
+    const idx = this.chars.indexOf(char);
+    if (idx !== -1) this.chars.splice(idx, 1);
+  }
+
+  format(position, siteId, attributes, stamp) {
+    if (!Array.isArray(position) || !attributes) return;
+    const key = charKey(position, siteId);
+    const char = this.keys.get(key) || this.tombstones.get(key)?.char;
+    if (char) {
+      applyAttributes(char, attributes, stamp);
+    } else if (!this.tombstones.has(key)) {
+      const pending = this.pendingFormats.get(key) || [];
+      pending.push({ patch: attributes, stamp });
+      this.pendingFormats.set(key, pending);
+    }
+  }
+
+  // Same rule as LSEQ.collectGarbage: a tombstone goes once every vector
+  // (one per site that has written to the room) covers its delete
+  collectGarbage(vectors) {
+    let collected = 0;
+    this.tombstones.forEach((t, key) => {
+      if (vectors.every(v => (v?.[t.deletedBy] ?? 0) >= t.seq)) {
+        this.tombstones.delete(key);
+        this.pendingFormats.delete(key);
+        collected++;
+      }
+    });
+    return collected;
+  }
+
+  recordTombstone(tombstone) {
+    const key = charKey(tombstone.position, tombstone.siteId);
+    const existing = this.tombstones.get(key);
+    if (existing) {
+      if (!existing.char && tombstone.char) existing.char = tombstone.char;
+    } else {
+      this.tombstones.set(key, tombstone);
+    }
+    this.mergeDeleteVector({ [tombstone.deletedBy]: tombstone.seq });
+  }
+
+  mergeDeleteVector(vector) {
+    for (const site in vector || {}) {
+      if ((this.seenDeletes[site] ?? 0) < vector[site]) this.seenDeletes[site] = vector[site];
+    }
+  }
+}
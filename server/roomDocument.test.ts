@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { LSEQ } from '../lib/crdt';
+import { RoomDocument, commonVector, dominates } from './roomDocument.js';
+
+const values = (doc: RoomDocument) => doc.state.map((c: { value: string }) => c.value).join('');
+
+describe('RoomDocument', () => {
+  it('orders chars the same way as LSEQ', () => {
+    const a = new LSEQ('a');
+    const b = new LSEQ('b');
+    const doc = new RoomDocument();
+    let counter = 0;
+    [...'hello'].forEach((value, i) => doc.apply({ type: 'insert', char: a.localInsert(i, value), siteId: 'a', counter: ++counter }));
+    a.state.forEach(char => b.remoteInsert(char));
+    [...' world'].forEach((value, i) => {
+      const char = b.localInsert(5 + i, value);
+      a.remoteInsert(char);
+      doc.apply({ type: 'insert', char, siteId: 'b', counter: i + 1 });
+    });
+    expect(values(doc)).toBe('hello world');
+    expect(values(doc)).toBe(a.text);
+  });
+
+  it('orders tied chars the same way as LSEQ', () => {
+    const c = new LSEQ('c');
+    const doc = new RoomDocument();
+    const shared = [{ value: 'a', position: [5], siteId: 'A' }, { value: 'b', position: [5], siteId: 'B' }];
+    shared.forEach((char, i) => {
+      c.remoteInsert({ ...char });
+      doc.apply({ type: 'insert', char, siteId: char.siteId, counter: i + 1 });
+    });
+    [...'XY'].forEach((value, i) => doc.apply({ type: 'insert', char: c.localInsert(1 + i, value), siteId: 'c', counter: i + 1 }));
+    expect(values(doc)).toBe('aXYb');
+    expect(values(doc)).toBe(c.text);
+  });
+
+  it('applies each (siteId, counter) once', () => {
+    const doc = new RoomDocument();
+    const op = { type: 'insert', char: { value: 'x', position: [1], siteId: 'a' }, siteId: 'a', counter: 1 };
+    expect(doc.apply(op)).toBe(true);
+    expect(doc.apply({ ...op, char: { ...op.char, position: [2] } })).toBe(false);
+    expect(doc.vector).toEqual({ a: 1 });
+    expect(values(doc)).toBe('x');
+  });
+
+  it('rejects ops that are not document ops', () => {
+    expect(new RoomDocument().apply({ type: 'cursor', siteId: 'a' })).toBe(false);
+  });
+
+  it('keeps a delete that arrives before its insert', () => {
+    const doc = new RoomDocument();
+    doc.apply({ type: 'delete', position: [1], siteId: 'a', deleterId: 'b', seq: 1, counter: 1 });
+    doc.apply({ type: 'insert', char: { value: 'x', position: [1], siteId: 'a' }, siteId: 'a', counter: 1 });
+    expect(values(doc)).toBe('');
+    expect(doc.seenDeletes).toEqual({ b: 1 });
+  });
+
+  it('resolves formats last-writer-wins per attribute', () => {
+    const doc = new RoomDocument([{ value: 'x', position: [1], siteId: 'a' }]);
+    doc.apply({ type: 'format', position: [1], charSiteId: 'a', attributes: { bold: true, color: 'red' }, siteId: 'b', clock: 2, counter: 1 });
+    doc.apply({ type: 'format', position: [1], charSiteId: 'a', attributes: { color: 'blue' }, siteId: 'c', clock: 1, counter: 1 });
+    expect(doc.state[0].attributes).toEqual({ bold: true, color: 'red' });
+  });
+
+  it('applies batches', () => {
+    const doc = new RoomDocument();
+    doc.apply({
+      type: 'batch-insert',
+      ops: [{ char: { value: 'a', position: [1], siteId: 's' } }, { char: { value: 'b', position: [2], siteId: 's' } }],
+      siteId: 's',
+      counter: 1
+    });
+    doc.apply({ type: 'batch-format', ops: [{ position: [2], charSiteId: 's', attributes: { italic: true }, clock: 1 }], siteId: 's', counter: 2 });
+    doc.apply({ type: 'batch-delete', ops: [{ position: [1], siteId: 's', deleterId: 's', seq: 1 }], siteId: 's', counter: 3 });
+    expect(doc.state).toEqual([{ value: 'b', position: [2], siteId: 's', attributes: { italic: true }, attributeStamps: { italic: { clock: 1, siteId: 's' } } }]);
+  });
+
+  it('collects a tombstone once every vector covers its delete', () => {
+    const doc = new RoomDocument();
+    doc.apply({ type: 'delete', position: [1], siteId: 'a', deleterId: 'a', seq: 2, counter: 1 });
+    expect(doc.collectGarbage([{ a: 2 }, { a: 1 }])).toBe(0);
+    expect(doc.collectGarbage([{ a: 2 }, { a: 2 }])).toBe(1);
+    expect(doc.tombstoneState).toEqual([]);
+  });
+});
+
+describe('dominates', () => {
+  it('is true when one vector has seen everything in the other', () => {
+    expect(dominates({ a: 2, b: 1 }, { a: 2 })).toBe(true);
+    expect(dominates({ a: 1 }, { a: 2 })).toBe(false);
+    expect(dominates({}, { b: 1 })).toBe(false);
+    expect(dominates({ a: 1 }, null)).toBe(true);
+  });
+});
+
+describe('commonVector', () => {
+  it('keeps what every vector has seen', () => {
+    expect(commonVector([{ a: 3, b: 1 }, { a: 2, c: 5 }])).toEqual({ a: 2 });
+    expect(commonVector([{ a: 3 }, {}])).toEqual({});
+    expect(commonVector([])).toEqual({});
+  });
+});
@@ -0,0 +1,46 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { decodeAccessToken, resolveAccessToken, shareLink } from './accessToken';
+
+const token = (grant: object) => `${btoa(JSON.stringify(grant)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}.signature`;
+
+afterEach(() => {
+  localStorage.clear();
+  window.history.replaceState(null, '', '/');
+  vi.unstubAllEnvs();
+});
+
+describe('resolveAccessToken', () => {
+  it('remembers a token from the link and takes it out of the address bar', () => {
+    window.history.replaceState(null, '', '/?room=notes&token=abc.def');
+    expect(resolveAccessToken('notes')).toBe('abc.def');
+    expect(window.location.search).toBe('?room=notes');
+
+    // Later visits without the token use the remembered one
+    window.history.replaceState(null, '', '/?room=notes');
+    expect(resolveAccessToken('notes')).toBe('abc.def');
+    expect(resolveAccessToken('other')).toBeNull();
+  });
+});
+
+describe('decodeAccessToken', () => {
+  it('reads the grant without checking the signature', () => {
+    expect(decodeAccessToken(token({ room: 'notes', role: 'editor', exp: null }))).toEqual({ room: 'notes', role: 'editor', exp: null });
+  });
+
+  it('returns null for unknown roles, expired and garbled tokens', () => {
+    expect(decodeAccessToken(token({ room: 'notes', role: 'admin' }))).toBeNull();
+    expect(decodeAccessToken(token({ room: 'notes', role: 'viewer', exp: Date.now() - 1 }))).toBeNull();
+    expect(decodeAccessToken('%%%.x')).toBeNull();
+    expect(decodeAccessToken(null)).toBeNull();
+  });
+});
+
+describe('shareLink', () => {
+  it('points at this page unless a public URL is configured', () => {
+    vi.stubEnv('VITE_PUBLIC_URL', '');
+    expect(shareLink('notes')).toBe(`${window.location.origin}/?room=notes`);
+    vi.stubEnv('VITE_PUBLIC_URL', 'https://docs.example.com/app');
+    expect(shareLink('my notes', 'abc.def')).toBe('https://docs.example.com/app?room=my+notes&token=abc.def');
+  });
+});
@@ -0,0 +1,47 @@
+import { AccessGrant, Role } from '../types';
+
+const ROLES: Role[] = ['viewer', 'commenter', 'editor', 'owner'];
+const tokenKey = (room: string) => `collab-token:${room}`;
+
+// A share link carries ?token=...; it is remembered per room and taken out
+// of the address bar so copying the page URL never hands the token on
+export const resolveAccessToken = (room: string): string | null => {
+  const url = new URL(window.location.href);
+  const fromUrl = url.searchParams.get('token');
+  try {
+    if (fromUrl) {
+      localStorage.setItem(tokenKey(room), fromUrl);
+      url.searchParams.delete('token');
+      window.history.replaceState(null, '', url.toString());
+      return fromUrl;
+    }
+    return localStorage.getItem(tokenKey(room));
+  } catch (err) {
+    console.warn('Stored access token unavailable', err);
+    return fromUrl;
+  }
+};
+
+// Reads a token's payload to show what it grants. The relay still verifies
+// the signature; null for tokens that are malformed or already expired.
+export const decodeAccessToken = (token: string | null): AccessGrant | null => {
+  if (!token) return null;
+  try {
+    const payload = token.split('.')[0].replace(/-/g, '+').replace(/_/g, '/');
+    const grant = JSON.parse(atob(payload));
+    if (typeof grant.room !== 'string' || !ROLES.includes(grant.role)) return null;
+    if (typeof grant.exp === 'number' && grant.exp < Date.now()) return null;
+    return { room: grant.room, role: grant.role, exp: typeof grant.exp === 'number' ? grant.exp : null };
+  } catch (e) {
+    return null;
+  }
+};
+
+// Share links point at VITE_PUBLIC_URL when it is configured, otherwise at
+// this page; the token, if any, decides what the link lets people do
+export const shareLink = (room: string, token?: string): string => {
+  const url = new URL(import.meta.env.VITE_PUBLIC_URL || `${window.location.origin}${window.location.pathname}`);
+  url.searchParams.set('room', room);
+  if (token) url.searchParams.set('token', token);
+  return url.toString();
+};
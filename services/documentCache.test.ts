@@ -0,0 +1,19 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { loadCachedDocument, saveCachedDocument } from './documentCache';
+
+describe('document cache', () => {
+  it('returns what was saved for a room', async () => {
+    const doc = {
+      room: 'notes',
+      state: [{ value: 'x', position: [1], siteId: 'a' }],
+      tombstones: [{ position: [2], siteId: 'a', deletedBy: 'a', seq: 1 }],
+      seenDeletes: { a: 1 },
+      vector: { a: 3 },
+      savedAt: 1
+    };
+    await saveCachedDocument(doc);
+    expect(await loadCachedDocument('notes')).toEqual(doc);
+    expect(await loadCachedDocument('elsewhere')).toBeNull();
+  });
+});
@@ -0,0 +1,35 @@
+import { openLocalDb, requestToPromise, DOCUMENTS_STORE } from './localDb';
+import { CRDTChar, Tombstone, DeleteVector, VersionVector } from '../types';
+
+export interface CachedDocument {
+  room: string;
+  state: CRDTChar[];
+  tombstones: Tombstone[];
+  seenDeletes: DeleteVector;
+  // Tells the relay which ops we already have, so reopening a cached room
+  // only pulls the delta
+  vector: VersionVector;
+  savedAt: number;
+}
+
+export const loadCachedDocument = async (room: string): Promise<CachedDocument | null> => {
+  try {
+    const db = await openLocalDb();
+    const store = db.transaction(DOCUMENTS_STORE, 'readonly').objectStore(DOCUMENTS_STORE);
+    const cached = await requestToPromise(store.get(room)) as CachedDocument | undefined;
+    return cached && Array.isArray(cached.state) ? cached : null;
+  } catch (err) {
+    console.warn('Local document cache unavailable', err);
+    return null;
+  }
+};
+
+export const saveCachedDocument = async (doc: CachedDocument): Promise<void> => {
+  try {
+    const db = await openLocalDb();
+    await requestToPromise(db.transaction(DOCUMENTS_STORE, 'readwrite').objectStore(DOCUMENTS_STORE).put(doc));
+  } catch (err) {
+    // Quota exceeded or private mode: the relay still has the document
+    console.warn(`Failed to cache document for room ${doc.room}`, err);
+  }
+};
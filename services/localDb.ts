@@ -0,0 +1,44 @@
+// Shared IndexedDB database for everything the editor keeps on this device.
+
+const DB_NAME = 'collabcore';
+const DB_VERSION = 2;
+
+// Local document ops not yet acknowledged by the relay
+export const OUTBOX_STORE = 'outbox';
+// Last known CRDT state of each room, for instant loads
+export const DOCUMENTS_STORE = 'documents';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openLocalDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: ['room', 'siteId', 'counter'] });
+          outbox.createIndex('room', 'room');
+        }
+        if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+          db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'room' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry instead of caching the failure forever
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
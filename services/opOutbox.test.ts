@@ -0,0 +1,56 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { OpOutbox } from './opOutbox';
+
+const op = (siteId: string, counter: number) => ({ type: 'insert', siteId, counter, char: { value: 'x', position: [counter], siteId } });
+
+describe('OpOutbox', () => {
+  it('keeps ops until the relay acknowledges them', () => {
+    const sizes: number[] = [];
+    const outbox = new OpOutbox('memory', 'a', size => sizes.push(size));
+    outbox.add(op('a', 1));
+    outbox.add(op('a', 2));
+    outbox.add(op('b', 1));
+
+    outbox.ack('a', 1);
+    expect(outbox.ops).toEqual([op('a', 2), op('b', 1)]);
+    // Acks cover every earlier counter of the site
+    outbox.ack('a', 5);
+    expect(outbox.ops).toEqual([op('b', 1)]);
+    // Nothing left to drop, so no change is reported
+    outbox.ack('a', 5);
+    expect(sizes).toEqual([1, 2, 3, 2, 1]);
+  });
+
+  it('restores unacknowledged ops of the same room and site after a reload', async () => {
+    const first = new OpOutbox('persisted', 'a');
+    first.add(op('a', 1));
+    first.add(op('a', 2));
+    first.ack('a', 1);
+    new OpOutbox('other-room', 'a').add(op('a', 3));
+    // Another tab's ops are its own to replay
+    new OpOutbox('persisted', 'b').add(op('b', 1));
+
+    await vi.waitFor(async () => {
+      const reloaded = new OpOutbox('persisted', 'a');
+      await reloaded.load();
+      expect(reloaded.ops).toEqual([op('a', 2)]);
+    });
+  });
+
+  it('does not duplicate ops queued before the stored ones were loaded', async () => {
+    const first = new OpOutbox('merge', 'a');
+    first.add(op('a', 1));
+    await vi.waitFor(async () => {
+      const probe = new OpOutbox('merge', 'a');
+      await probe.load();
+      expect(probe.size).toBe(1);
+    });
+
+    const reloaded = new OpOutbox('merge', 'a');
+    reloaded.add(op('a', 1));
+    reloaded.add(op('a', 2));
+    await reloaded.load();
+    expect(reloaded.ops).toEqual([op('a', 1), op('a', 2)]);
+  });
+});
@@ -0,0 +1,75 @@
+import { openLocalDb, requestToPromise, OUTBOX_STORE } from './localDb';
+
+export interface QueuedOp {
+  room: string;
+  siteId: string;
+  counter: number;
+  queuedAt: number;
+  op: any;
+}
+
+// Every local document op sits here until the relay acknowledges it, so
+// edits made while offline (or lost with a dropped socket) are replayed on
+// the next connection. Entries are mirrored to IndexedDB, keyed by room and
+// siteId; if IndexedDB is unavailable the outbox still works in memory.
+// Each tab only ever sees its own siteId's entries: the relay accepts a
+// site's ops only from the socket that joined as that site.
+export class OpOutbox {
+  private entries: QueuedOp[] = [];
+  private room: string;
+  private siteId: string;
+  private onChange?: (size: number) => void;
+
+  constructor(room: string, siteId: string, onChange?: (size: number) => void) {
+    this.room = room;
+    this.siteId = siteId;
+    this.onChange = onChange;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  get ops(): any[] {
+    return this.entries.map(e => e.op);
+  }
+
+  // Pulls in ops this site queued in the room before, e.g. before the
+  // editor switched to another room and back
+  async load(): Promise<void> {
+    try {
+      const db = await openLocalDb();
+      const store = db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE);
+      const range = IDBKeyRange.bound([this.room, this.siteId, 0], [this.room, this.siteId, Infinity]);
+      const stored = await requestToPromise(store.getAll(range)) as QueuedOp[];
+      const known = new Set(this.entries.map(e => `${e.siteId}:${e.counter}`));
+      const restored = stored.filter(e => !known.has(`${e.siteId}:${e.counter}`));
+      this.entries = [...restored, ...this.entries].sort((a, b) => a.queuedAt - b.queuedAt || a.counter - b.counter);
+      this.onChange?.(this.size);
+    } catch (err) {
+      console.warn('Offline queue unavailable, pending ops will not survive a reload', err);
+    }
+  }
+
+  add(op: any) {
+    const entry: QueuedOp = { room: this.room, siteId: op.siteId, counter: op.counter, queuedAt: Date.now(), op };
+    this.entries.push(entry);
+    this.onChange?.(this.size);
+    this.persist(store => store.put(entry));
+  }
+
+  // The relay has applied every op of `siteId` up to `counter`
+  ack(siteId: string, counter: number) {
+    const before = this.size;
+    this.entries = this.entries.filter(e => e.siteId !== siteId || e.counter > counter);
+    if (this.size === before) return;
+    this.onChange?.(this.size);
+    this.persist(store => store.delete(IDBKeyRange.bound([this.room, siteId, 0], [this.room, siteId, counter])));
+  }
+
+  private persist(write: (store: IDBObjectStore) => void) {
+    openLocalDb()
+      .then(db => write(db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE)))
+      .catch(() => { /* memory-only */ });
+  }
+}
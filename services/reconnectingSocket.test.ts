@@ -0,0 +1,120 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReconnectingSocket } from './reconnectingSocket';
+
+class FakeSocket {
+  static OPEN = 1;
+  static instances: FakeSocket[] = [];
+  readyState = 0;
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  open() {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.();
+  }
+
+  // 1006: dropped without a close frame
+  close(code = 1006) {
+    this.readyState = 3;
+    this.onclose?.({ code });
+  }
+}
+
+const setOnline = (online: boolean) => {
+  vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(online);
+  window.dispatchEvent(new Event(online ? 'online' : 'offline'));
+};
+
+describe('ReconnectingSocket', () => {
+  let states: string[];
+  let socket: ReconnectingSocket;
+  const onOpen = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('WebSocket', FakeSocket);
+    FakeSocket.instances = [];
+    states = [];
+    onOpen.mockClear();
+    socket = new ReconnectingSocket('ws://relay', { onOpen, onMessage: () => {}, onStateChange: state => states.push(state) });
+  });
+
+  afterEach(() => {
+    socket.close();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('sends only while connected', () => {
+    socket.connect();
+    expect(socket.send('early')).toBe(false);
+    FakeSocket.instances[0].open();
+    expect(socket.send('hello')).toBe(true);
+    expect(FakeSocket.instances[0].sent).toEqual(['hello']);
+    expect(states).toEqual(['reconnecting', 'connected']);
+    expect(onOpen).toHaveBeenCalledOnce();
+  });
+
+  it('reconnects with growing delays after the socket drops', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    socket.connect();
+    FakeSocket.instances[0].close();
+    vi.advanceTimersByTime(500);
+    expect(FakeSocket.instances).toHaveLength(2);
+
+    FakeSocket.instances[1].close();
+    vi.advanceTimersByTime(999);
+    expect(FakeSocket.instances).toHaveLength(2);
+    vi.advanceTimersByTime(1000);
+    expect(FakeSocket.instances).toHaveLength(3);
+  });
+
+  it.each([4401, 4403])('stops retrying when the relay refuses access (%i)', code => {
+    socket.connect();
+    FakeSocket.instances[0].open();
+    FakeSocket.instances[0].close(code);
+    expect(states.at(-1)).toBe('denied');
+    vi.advanceTimersByTime(60000);
+    setOnline(true);
+    expect(FakeSocket.instances).toHaveLength(1);
+  });
+
+  it('keeps retrying when its siteId is taken (4409)', () => {
+    socket.connect();
+    FakeSocket.instances[0].close(4409);
+    expect(states.at(-1)).toBe('reconnecting');
+    vi.advanceTimersByTime(60000);
+    expect(FakeSocket.instances).toHaveLength(2);
+  });
+
+  it('waits for the browser to come back online', () => {
+    socket.connect();
+    FakeSocket.instances[0].open();
+    setOnline(false);
+    expect(states.at(-1)).toBe('offline');
+    vi.advanceTimersByTime(60000);
+    expect(FakeSocket.instances).toHaveLength(1);
+
+    setOnline(true);
+    expect(FakeSocket.instances).toHaveLength(2);
+  });
+
+  it('stays closed once closed', () => {
+    socket.connect();
+    socket.close();
+    vi.advanceTimersByTime(60000);
+    expect(FakeSocket.instances).toHaveLength(1);
+  });
+});
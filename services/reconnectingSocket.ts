@@ -0,0 +1,104 @@
+import { ConnectionState } from '../types';
+
+const MIN_BACKOFF = 500;
+const MAX_BACKOFF = 10000;
+// The relay closes with these when the token is invalid or expired (4401)
+// or does not grant the room (4403); retrying cannot help
+const ACCESS_DENIED_CODES = [4401, 4403];
+
+interface ReconnectingSocketHandlers {
+  onOpen: () => void;
+  onMessage: (event: MessageEvent) => void;
+  onStateChange: (state: ConnectionState) => void;
+}
+
+// WebSocket wrapper that keeps reconnecting with exponential backoff until
+// closed or refused access. While the browser reports itself offline it
+// waits for the `online` event instead of burning retries.
+export class ReconnectingSocket {
+  private socket: WebSocket | null = null;
+  private url: string;
+  private handlers: ReconnectingSocketHandlers;
+  private attempts = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | undefined;
+  private closed = false;
+
+  constructor(url: string, handlers: ReconnectingSocketHandlers) {
+    this.url = url;
+    this.handlers = handlers;
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+  }
+
+  get isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  connect() {
+    if (this.closed) return;
+    clearTimeout(this.retryTimer);
+    this.handlers.onStateChange(navigator.onLine === false ? 'offline' : 'reconnecting');
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempts = 0;
+      this.handlers.onStateChange('connected');
+      this.handlers.onOpen();
+    };
+    socket.onmessage = (event) => this.handlers.onMessage(event);
+    socket.onclose = (event) => {
+      if (this.socket !== socket || this.closed) return;
+      this.socket = null;
+      if (ACCESS_DENIED_CODES.includes(event.code)) {
+        this.close();
+        this.handlers.onStateChange('denied');
+        return;
+      }
+      this.scheduleReconnect();
+    };
+  }
+
+  // Returns false when the message could not be sent right now
+  send(data: string): boolean {
+    if (!this.isOpen) return false;
+    this.socket!.send(data);
+    return true;
+  }
+
+  close() {
+    this.closed = true;
+    clearTimeout(this.retryTimer);
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private scheduleReconnect() {
+    if (navigator.onLine === false) {
+      this.handlers.onStateChange('offline');
+      return; // handleOnline picks it up
+    }
+    this.handlers.onStateChange('reconnecting');
+    const delay = Math.min(MAX_BACKOFF, MIN_BACKOFF * 2 ** this.attempts) + Math.random() * MIN_BACKOFF;
+    this.attempts++;
+    this.retryTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private handleOnline = () => {
+    if (this.closed || this.socket) return;
+    this.attempts = 0;
+    this.connect();
+  };
+
+  private handleOffline = () => {
+    if (this.closed) return;
+    // The socket may take a long time to notice; drop it now
+    this.socket?.close();
+    this.socket = null;
+    clearTimeout(this.retryTimer);
+    this.handlers.onStateChange('offline');
+  };
+}
@@ -0,0 +1,44 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MAX_NAME_LENGTH, loadProfile, newSiteId, saveProfile } from './userProfile';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+afterEach(() => {
+  localStorage.clear();
+  vi.unstubAllGlobals();
+});
+
+describe('user profile', () => {
+  it('creates and keeps one profile per browser', () => {
+    const first = loadProfile();
+    expect(first.name).toBe('');
+    expect(first.userId).toMatch(/^user-/);
+    expect(loadProfile()).toEqual(first);
+  });
+
+  it('restores a saved profile, trimming overlong names', () => {
+    saveProfile({ userId: 'user-1', name: 'x'.repeat(MAX_NAME_LENGTH + 10), color: '#123456' });
+    expect(loadProfile()).toEqual({ userId: 'user-1', name: 'x'.repeat(MAX_NAME_LENGTH), color: '#123456' });
+  });
+
+  it('starts over when the saved profile is unreadable', () => {
+    localStorage.setItem('collab-profile', '{"userId": 5}');
+    expect(loadProfile().userId).toMatch(/^user-/);
+  });
+});
+
+describe('site ids', () => {
+  it('are random UUIDs that do not repeat', () => {
+    const ids = new Set(Array.from({ length: 10000 }, newSiteId));
+    expect(ids.size).toBe(10000);
+    ids.forEach(id => expect(id).toMatch(UUID));
+  });
+
+  it('fall back to getRandomValues outside secure contexts', () => {
+    const { getRandomValues } = crypto;
+    vi.stubGlobal('crypto', { getRandomValues: getRandomValues.bind(crypto) });
+    expect(newSiteId()).toMatch(UUID);
+    expect(newSiteId()).not.toBe(newSiteId());
+  });
+});
@@ -0,0 +1,50 @@
+import { COLORS } from '../constants';
+import { UserProfile } from '../types';
+
+const PROFILE_KEY = 'collab-profile';
+
+export const MAX_NAME_LENGTH = 40;
+
+const newUserId = () => `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Each tab edits under its own siteId. Peers and the relay tell ops apart by
+// (siteId, counter), so two tabs sharing an id would drop each other's edits.
+export const newSiteId = (): string => {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  // randomUUID only exists in secure contexts, e.g. not on http://<LAN address>
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+const randomColor = () => COLORS[Math.floor(Math.random() * COLORS.length)];
+
+// The saved profile, or a fresh one (with an empty name, so the app asks
+// for one) the first time this browser is used
+export const loadProfile = (): UserProfile => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PROFILE_KEY) || 'null');
+    if (saved && typeof saved.userId === 'string' && saved.userId) {
+      return {
+        userId: saved.userId,
+        name: typeof saved.name === 'string' ? saved.name.slice(0, MAX_NAME_LENGTH) : '',
+        color: typeof saved.color === 'string' && saved.color ? saved.color : randomColor()
+      };
+    }
+  } catch (err) {
+    console.warn('Saved profile unreadable, starting a new one', err);
+  }
+  const profile = { userId: newUserId(), name: '', color: randomColor() };
+  saveProfile(profile);
+  return profile;
+};
+
+export const saveProfile = (profile: UserProfile) => {
+  try {
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+  } catch (err) {
+    // Private mode: the profile lasts for this tab only
+    console.warn('Failed to save profile', err);
+  }
+};
@@ -1,32 +1,220 @@
 
 // Added Collaborator interface to fix missing export errors
+// `id` is the per-tab CRDT siteId; `userId` is the person behind it, shared
+// by all of their tabs
 export interface Collaborator {
   id: string;
+  userId?: string;
   name: string;
   color: string;
 }
 
+// What a share token lets its holder do in a room, weakest first:
+// viewer < commenter < editor < owner
+export type Role = 'viewer' | 'commenter' | 'editor' | 'owner';
+
+// Payload of a share token; only the relay can check the signature
+export interface AccessGrant {
+  room: string;
+  role: Role;
+  exp: number | null;
+}
+
+// Saved in the browser so a person keeps their name, colour and userId
+// across reloads and tabs
+export interface UserProfile {
+  userId: string;
+  name: string;
+  color: string;
+}
+
+// Where imported content goes: at the caret, after the last character, or
+// in place of the whole document
+export type ImportMode = 'cursor' | 'append' | 'replace';
+
+// A stretch of imported or exported text sharing the same attributes
+export interface RichTextRun {
+  text: string;
+  attributes?: CRDTAttributes;
+}
+
+// 'denied': the relay refused the share link (invalid, expired or for another room)
+export type ConnectionState = 'connected' | 'reconnecting' | 'offline' | 'denied';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  // Local ops the relay has not acknowledged yet
+  pendingOps: number;
+}
+
 export interface CRDTAttributes {
   bold?: boolean;
   italic?: boolean;
   underline?: boolean;
   fontSize?: string;
   fontFamily?: string;
+  // Inline code span
+  code?: boolean;
+  // Link target (href)
+  link?: string;
+  // Text and highlight colours as '#rrggbb'
+  color?: string;
+  backgroundColor?: string;
+  // Suggestion mode: id of the pending suggestion that inserted this char,
+  // or that proposes deleting it
+  suggestInsert?: string;
+  suggestDelete?: string;
+  // Block attributes. They only mean something on the '\n' that ends a
+  // block (the last line may have no '\n' and is then a plain paragraph).
+  block?: BlockType;
+  align?: TextAlign;
+  indent?: number;
 }
 
+// Absent = plain paragraph
+export type BlockType = 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6' | 'bullet' | 'numbered' | 'quote' | 'code';
+
+export type TextAlign = 'left' | 'center' | 'right' | 'justify';
+
+export type BlockAttributes = Pick<CRDTAttributes, 'block' | 'align' | 'indent'>;
+
+// What a pending suggestion proposes: the chars it inserted (suggestInsert)
+// or the ones it would delete (suggestDelete)
+export type SuggestionType = 'insert' | 'delete';
+
+// Format patch as sent over the wire; null clears an attribute
+export type AttributePatch = { [K in keyof CRDTAttributes]?: CRDTAttributes[K] | null };
+
+// Last-writer-wins stamp of one attribute: higher Lamport clock wins,
+// siteId breaks ties. Attributes set at insert time have no stamp.
+export interface AttributeStamp {
+  clock: number;
+  siteId: string;
+}
+
+export type AttributeStamps = { [K in keyof CRDTAttributes]?: AttributeStamp };
+
 export interface CRDTChar {
   value: string;
   position: FractionalIndex;
   siteId: string;
+  ties?: string[];
   attributes?: CRDTAttributes;
+  attributeStamps?: AttributeStamps;
+  // When the author typed it (ms since epoch, the author's clock); missing
+  // on chars written before this was recorded
+  createdAt?: number;
 }
 
 export type FractionalIndex = number[];
 
-export type CRDTOperation = 
-  | { type: 'insert'; char: CRDTChar; siteId: string }
-  | { type: 'delete'; position: FractionalIndex; siteId: string }
-  | { type: 'format'; position: FractionalIndex; charSiteId: string; attributes: Partial<CRDTAttributes>; siteId: string }
-  | { type: 'cursor'; siteId: string; cursor: number; name: string; color: string }
-  | { type: 'request-sync'; siteId: string }
-  | { type: 'sync-response'; siteId: string; state: CRDTChar[] };
+// Identity of a char; unlike an index it stays put under concurrent edits
+export interface CharId {
+  position: FractionalIndex;
+  siteId: string;
+  // One siteId per TIE digit of the position (see lib/crdt.ts)
+  ties?: string[];
+}
+
+// A comment covers every char from its first to its last anchor char in
+// document order, so text typed inside the range later is covered too and
+// deleting the anchor chars themselves does not lose it
+export interface CommentAnchor {
+  start: CharId;
+  end: CharId;
+}
+
+export interface CommentMessage {
+  id: string;
+  // siteId of the writer and the name they had at the time
+  author: string;
+  authorName?: string;
+  text: string;
+  createdAt: number;
+}
+
+// Stored and ordered by the relay; the first message opens the thread
+export interface CommentThread {
+  id: string;
+  anchor: CommentAnchor;
+  // The commented text when the thread was opened
+  quote: string;
+  messages: CommentMessage[];
+  resolved: boolean;
+  createdAt: number;
+}
+
+// A comment being written for the current selection, not sent yet
+export interface CommentDraft {
+  anchor: CommentAnchor;
+  quote: string;
+}
+
+// Identifies a character for deletion and carries the causal metadata of
+// the delete: which site issued it and that site's delete sequence number.
+export interface DeleteOp {
+  position: FractionalIndex;
+  siteId: string;
+  deleterId?: string;
+  seq?: number;
+}
+
+// A deleted character. It stays around until every known site has seen the
+// delete, so late inserts/formats for the same identifier cannot revive it.
+export interface Tombstone {
+  position: FractionalIndex;
+  siteId: string;
+  deletedBy: string;
+  seq: number;
+  // Missing when the delete arrived before the insert it targets
+  char?: CRDTChar;
+}
+
+// Highest delete sequence number seen from each site
+export type DeleteVector = Record<string, number>;
+
+// Highest op counter applied from each site. Every document op a site sends
+// is stamped with (siteId, counter), counters increasing by one per op.
+export type VersionVector = Record<string, number>;
+
+// A saved copy of a room kept by the relay; `auto` versions are taken on a
+// timer and before imports or restores, the others were saved by someone
+export interface HistoryVersion {
+  id: string;
+  name: string | null;
+  auto: boolean;
+  createdAt: number;
+  createdBy?: string | null;
+  charCount: number;
+}
+
+export interface HistorySnapshot extends HistoryVersion {
+  state: CRDTChar[];
+}
+
+// Ops that change the document: the relay stores these and replays them in
+// sync-delta
+export type DocumentOperation =
+  | { type: 'insert'; char: CRDTChar; siteId: string; counter?: number }
+  | { type: 'delete'; position: FractionalIndex; siteId: string; deleterId?: string; seq?: number; counter?: number }
+  | { type: 'format'; position: FractionalIndex; charSiteId: string; attributes: AttributePatch; siteId: string; clock?: number; counter?: number }
+  | { type: 'batch-insert'; ops: { type?: 'insert'; char: CRDTChar; siteId?: string }[]; siteId: string; counter?: number }
+  | { type: 'batch-delete'; ops: { type?: 'delete'; position: FractionalIndex; siteId: string; deleterId?: string; seq?: number }[]; siteId: string; counter?: number }
+  | { type: 'batch-format'; ops: { type?: 'format'; position: FractionalIndex; charSiteId: string; attributes: AttributePatch; siteId?: string; clock?: number }[]; siteId: string; counter?: number };
+
+export type CRDTOperation =
+  | DocumentOperation
+  // anchor/head are the chars just before each end of the selection, null at
+  // the start of the document
+  | { type: 'cursor'; siteId: string; userId?: string; anchor: CharId | null; head: CharId | null; name: string; color: string }
+  | { type: 'request-sync'; siteId: string; vector?: VersionVector }
+  | { type: 'sync-response'; siteId: string; state: CRDTChar[]; tombstones?: Tombstone[]; seenDeletes?: DeleteVector; vector?: VersionVector }
+  | { type: 'sync-delta'; siteId: string; ops: DocumentOperation[]; vector: VersionVector }
+  | { type: 'op-ack'; siteId: string; opSiteId: string; counter: number }
+  // The relay dropped one of our messages (not allowed for our role, or not
+  // matching lib/opSchema.js)
+  | { type: 'op-rejected'; siteId: string; opType: string | null; opSiteId: string | null; counter: number | null; reason: string }
+  | { type: 'gc-ack'; siteId: string; seen: DeleteVector }
+  // From the relay: deletes every site that has written to the room has
+  // seen, so their tombstones can go
+  | { type: 'gc-collect'; siteId: string; seen: DeleteVector };
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Address collaborators open share links at, e.g. https://docs.example.com
+  readonly VITE_PUBLIC_URL?: string;
+}